@@ -27,6 +27,8 @@ const nextConfig = {
   images: {
     remotePatterns
   },
+  // Tesseract runs in a worker thread and loads its WASM core from node_modules
+  serverExternalPackages: ['tesseract.js'],
   // Required to run in a codespace (see https://github.com/vercel/next.js/issues/58019)
   experimental: {
     serverActions: {
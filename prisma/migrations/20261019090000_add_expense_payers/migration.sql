@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "payersSplitMode" "SplitMode" NOT NULL DEFAULT 'EVENLY';
+
+-- CreateTable
+CREATE TABLE "ExpensePaidBy" (
+    "expenseId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "shares" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "ExpensePaidBy_pkey" PRIMARY KEY ("expenseId","participantId")
+);
+
+-- AddForeignKey
+ALTER TABLE "ExpensePaidBy" ADD CONSTRAINT "ExpensePaidBy_expenseId_fkey" FOREIGN KEY ("expenseId") REFERENCES "Expense"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpensePaidBy" ADD CONSTRAINT "ExpensePaidBy_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ExpenseDocument" ADD COLUMN     "contentType" TEXT,
+ADD COLUMN     "name" TEXT,
+ADD COLUMN     "thumbnailUrl" TEXT,
+ALTER COLUMN "width" DROP NOT NULL,
+ALTER COLUMN "height" DROP NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'CREATE_REIMBURSEMENT';
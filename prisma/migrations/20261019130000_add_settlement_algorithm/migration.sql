@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "SettlementAlgorithm" AS ENUM ('GREEDY', 'MIN_TRANSFERS');
+
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "settlementAlgorithm" "SettlementAlgorithm" NOT NULL DEFAULT 'GREEDY';
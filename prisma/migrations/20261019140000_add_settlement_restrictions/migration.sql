@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SettlementRestriction" AS ENUM ('NONE', 'FORBIDDEN_PAIRS', 'ALLOWED_PAIRS', 'TREASURER');
+
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN     "settlementRestriction" "SettlementRestriction" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "treasurerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "SettlementPair" (
+    "groupId" TEXT NOT NULL,
+    "fromId" TEXT NOT NULL,
+    "toId" TEXT NOT NULL,
+
+    CONSTRAINT "SettlementPair_pkey" PRIMARY KEY ("groupId","fromId","toId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Group_treasurerId_key" ON "Group"("treasurerId");
+
+-- AddForeignKey
+ALTER TABLE "Group" ADD CONSTRAINT "Group_treasurerId_fkey" FOREIGN KEY ("treasurerId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementPair" ADD CONSTRAINT "SettlementPair_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "Group"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementPair" ADD CONSTRAINT "SettlementPair_fromId_fkey" FOREIGN KEY ("fromId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SettlementPair" ADD CONSTRAINT "SettlementPair_toId_fkey" FOREIGN KEY ("toId") REFERENCES "Participant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN     "iban" TEXT,
+ADD COLUMN     "paymentNote" TEXT,
+ADD COLUMN     "paypalMe" TEXT,
+ADD COLUMN     "revolut" TEXT,
+ADD COLUMN     "upi" TEXT,
+ADD COLUMN     "venmo" TEXT;
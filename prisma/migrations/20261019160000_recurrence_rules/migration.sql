@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN     "recurrenceStartDate" DATE,
+ALTER COLUMN "recurrenceRule" DROP DEFAULT,
+ALTER COLUMN "recurrenceRule" SET DATA TYPE TEXT USING (
+  CASE "recurrenceRule"
+    WHEN 'DAILY' THEN 'FREQ=DAILY'
+    WHEN 'WEEKLY' THEN 'FREQ=WEEKLY'
+    WHEN 'MONTHLY' THEN 'FREQ=MONTHLY'
+    ELSE NULL
+  END
+);
+
+-- Existing series are anchored on their latest expense
+UPDATE "Expense" SET "recurrenceStartDate" = "expenseDate" WHERE "recurrenceRule" IS NOT NULL;
+
+-- DropEnum
+DROP TYPE "RecurrenceRule";
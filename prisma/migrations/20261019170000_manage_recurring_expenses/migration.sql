@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "RecurringExpenseLink" ADD COLUMN     "amount" INTEGER,
+ADD COLUMN     "categoryId" INTEGER,
+ADD COLUMN     "pausedAt" TIMESTAMP(3),
+ADD COLUMN     "title" TEXT;
@@ -0,0 +1,8 @@
+-- Trigram indexes speed up the case-insensitive search (ILIKE '%…%') on expenses
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "Expense_title_idx" ON "Expense" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Expense_notes_idx" ON "Expense" USING GIN ("notes" gin_trgm_ops);
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'RESTORE_EXPENSE';
+
+-- AlterTable
+ALTER TABLE "Expense" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Expense_groupId_deletedAt_idx" ON "Expense"("groupId", "deletedAt");
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "ActivityType" ADD VALUE 'ADD_PARTICIPANT';
+ALTER TYPE "ActivityType" ADD VALUE 'RENAME_PARTICIPANT';
+ALTER TYPE "ActivityType" ADD VALUE 'REMOVE_PARTICIPANT';
+ALTER TYPE "ActivityType" ADD VALUE 'CHANGE_CURRENCY';
+ALTER TYPE "ActivityType" ADD VALUE 'UPDATE_GROUP_INFORMATION';
+ALTER TYPE "ActivityType" ADD VALUE 'IMPORT_EXPENSES';
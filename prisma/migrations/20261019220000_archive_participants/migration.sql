@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "archivedAt" TIMESTAMP(3);
+
+-- Participants of expenses must be archived or have their expenses reassigned
+-- before being deleted, instead of deleting the expenses with them
+
+-- DropForeignKey
+ALTER TABLE "Expense" DROP CONSTRAINT "Expense_paidById_fkey";
+
+-- DropForeignKey
+ALTER TABLE "ExpensePaidFor" DROP CONSTRAINT "ExpensePaidFor_participantId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "ExpensePaidBy" DROP CONSTRAINT "ExpensePaidBy_participantId_fkey";
+
+-- DropForeignKey
+ALTER TABLE "ExpenseItemParticipant" DROP CONSTRAINT "ExpenseItemParticipant_participantId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Expense" ADD CONSTRAINT "Expense_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "Participant"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpensePaidFor" ADD CONSTRAINT "ExpensePaidFor_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpensePaidBy" ADD CONSTRAINT "ExpensePaidBy_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExpenseItemParticipant" ADD CONSTRAINT "ExpenseItemParticipant_participantId_fkey" FOREIGN KEY ("participantId") REFERENCES "Participant"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
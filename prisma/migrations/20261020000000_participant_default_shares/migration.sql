@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "defaultShares" INTEGER NOT NULL DEFAULT 100;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Group" ADD COLUMN "defaultSplitMode" "SplitMode" NOT NULL DEFAULT 'EVENLY',
+ADD COLUMN "defaultCategoryId" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "defaultPayerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Participant" ADD COLUMN "inDefaultSplit" BOOLEAN NOT NULL DEFAULT true;
+
+-- Groups whose participants have different default shares kept splitting new
+-- expenses by shares
+UPDATE "Group" SET "defaultSplitMode" = 'BY_SHARES'
+WHERE "id" IN (
+  SELECT "groupId" FROM "Participant"
+  GROUP BY "groupId"
+  HAVING COUNT(DISTINCT "defaultShares") > 1
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Group_defaultPayerId_key" ON "Group"("defaultPayerId");
+
+-- AddForeignKey
+ALTER TABLE "Group" ADD CONSTRAINT "Group_defaultCategoryId_fkey" FOREIGN KEY ("defaultCategoryId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Group" ADD CONSTRAINT "Group_defaultPayerId_fkey" FOREIGN KEY ("defaultPayerId") REFERENCES "Participant"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+import { isAuthorizedAdminRequest } from '@/lib/admin'
+import { env } from '@/lib/env'
+import { purgeDeletedExpenses } from '@/lib/trash'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const querySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  retentionDays: z.coerce.number().int().min(1).optional(),
+})
+
+export async function POST(req: Request) {
+  if (!env.ADMIN_API_SECRET) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  if (!isAuthorizedAdminRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const query = querySchema.safeParse(
+    Object.fromEntries(new URL(req.url).searchParams),
+  )
+  if (!query.success) {
+    return NextResponse.json({ error: query.error.issues }, { status: 400 })
+  }
+
+  const result = await purgeDeletedExpenses(query.data)
+  console.log('Deleted expenses: %d purged', result.purged.length)
+  return NextResponse.json(result)
+}
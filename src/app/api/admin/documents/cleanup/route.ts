@@ -0,0 +1,35 @@
+import { isAuthorizedAdminRequest } from '@/lib/admin'
+import { cleanupOrphanedDocuments } from '@/lib/document-cleanup'
+import { env } from '@/lib/env'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const querySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+  gracePeriodHours: z.coerce.number().min(0).default(24),
+})
+
+export async function POST(req: Request) {
+  if (!env.NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS || !env.ADMIN_API_SECRET) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  if (!isAuthorizedAdminRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const query = querySchema.safeParse(
+    Object.fromEntries(new URL(req.url).searchParams),
+  )
+  if (!query.success) {
+    return NextResponse.json({ error: query.error.issues }, { status: 400 })
+  }
+
+  const { orphans, deleted } = await cleanupOrphanedDocuments(query.data)
+  return NextResponse.json({
+    orphans,
+    deleted: deleted.map((object) => object.key),
+  })
+}
@@ -0,0 +1,39 @@
+import { isAuthorizedAdminRequest } from '@/lib/admin'
+import { env } from '@/lib/env'
+import { createDueRecurringExpenses } from '@/lib/recurring-expenses'
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+const querySchema = z.object({
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true'),
+})
+
+export async function POST(req: Request) {
+  if (!env.ADMIN_API_SECRET) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+  if (!isAuthorizedAdminRequest(req)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const query = querySchema.safeParse(
+    Object.fromEntries(new URL(req.url).searchParams),
+  )
+  if (!query.success) {
+    return NextResponse.json({ error: query.error.issues }, { status: 400 })
+  }
+
+  const result = await createDueRecurringExpenses(query.data)
+  console.log(
+    'Recurring expenses: %d created, %d skipped, %d failed',
+    result.created.length,
+    result.skipped,
+    result.failed.length,
+  )
+  return NextResponse.json(result, {
+    status: result.failed.length > 0 ? 500 : 200,
+  })
+}
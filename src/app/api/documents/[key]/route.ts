@@ -0,0 +1,30 @@
+import { env } from '@/lib/env'
+import { canDisplayInline, getStorageDriver } from '@/lib/storage'
+import contentDisposition from 'content-disposition'
+import { NextResponse } from 'next/server'
+
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ key: string }> },
+) {
+  const { key: encodedKey } = await params
+  const key = decodeURIComponent(encodedKey)
+  const file = env.NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS
+    ? await getStorageDriver().getObject(key)
+    : null
+  if (!file) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  return new NextResponse(Buffer.from(file.body), {
+    headers: {
+      'Content-Type': file.contentType,
+      // keys are unique, stored files never change
+      'Cache-Control': 'public, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+      'Content-Disposition': contentDisposition(key, {
+        type: canDisplayInline(file.contentType) ? 'inline' : 'attachment',
+      }),
+    },
+  })
+}
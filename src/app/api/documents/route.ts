@@ -0,0 +1,35 @@
+import { env } from '@/lib/env'
+import { getContentType, getDocumentKey, getStorageDriver } from '@/lib/storage'
+import { NextResponse } from 'next/server'
+
+const MAX_FILE_SIZE = 5 * 1024 ** 2
+
+/**
+ * Uploads a document through the configured storage driver. S3 uploads are
+ * usually made directly from the browser with presigned URLs instead (see
+ * `/api/s3-upload`), this route is required for drivers without such URLs.
+ */
+export async function POST(req: Request) {
+  if (!env.NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 })
+  }
+
+  const formData = await req.formData()
+  const file = formData.get('file')
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Missing file' }, { status: 400 })
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return NextResponse.json({ error: 'File too big' }, { status: 413 })
+  }
+
+  const key = getDocumentKey(file.name)
+  const contentType = getContentType(key)
+
+  const url = await getStorageDriver().putObject(
+    key,
+    new Uint8Array(await file.arrayBuffer()),
+    contentType,
+  )
+  return NextResponse.json({ url })
+}
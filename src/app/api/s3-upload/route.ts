@@ -1,13 +1,10 @@
-import { randomId } from '@/lib/api'
 import { env } from '@/lib/env'
+import { getDocumentKey } from '@/lib/storage'
 import { POST as route } from 'next-s3-upload/route'
 
 export const POST = route.configure({
   key(req, filename) {
-    const [, extension] = filename.match(/(\.[^\.]*)$/) ?? [null, '']
-    const timestamp = new Date().toISOString()
-    const random = randomId()
-    return `document-${timestamp}-${random}${extension.toLowerCase()}`
+    return getDocumentKey(filename)
   },
   endpoint: env.S3_UPLOAD_ENDPOINT,
   // forcing path style is only necessary for providers other than AWS
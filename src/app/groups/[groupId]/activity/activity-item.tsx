@@ -1,12 +1,30 @@
 'use client'
+import { ExpenseRevisionChanges } from '@/app/groups/[groupId]/activity/expense-revision'
 import { Button } from '@/components/ui/button'
-import { DateTimeStyle, cn, formatDate } from '@/lib/utils'
+import { parseActivityDetails } from '@/lib/activities'
+import { parseExpenseRevision } from '@/lib/expense-revisions'
+import {
+  currencyChangedDetailsSchema,
+  expensesImportedDetailsSchema,
+  participantActivityDetailsSchema,
+  participantRenamedDetailsSchema,
+  participantsMergedDetailsSchema,
+  reimbursementDetailsSchema,
+} from '@/lib/schemas'
+import {
+  DateTimeStyle,
+  cn,
+  formatCurrency,
+  formatDate,
+  getCurrencyFromGroup,
+} from '@/lib/utils'
 import { AppRouterOutput } from '@/trpc/routers/_app'
 import { ActivityType, Participant } from '@prisma/client'
 import { ChevronRight } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
+import { useCurrentGroup } from '../current-group-context'
 
 export type Activity =
   AppRouterOutput['groups']['activities']['list']['activities'][number]
@@ -20,17 +38,24 @@ type Props = {
 
 function useSummary(activity: Activity, participantName?: string) {
   const t = useTranslations('Activity')
+  const locale = useLocale()
+  const { group } = useCurrentGroup()
   const participant = participantName ?? t('someone')
   const expense = activity.data ?? ''
 
-  const tr = (key: string) =>
+  const tr = (key: string, values: Record<string, string | number> = {}) =>
     t.rich(key, {
       expense,
       participant,
+      ...values,
       em: (chunks) => <em>&ldquo;{chunks}&rdquo;</em>,
       strong: (chunks) => <strong>{chunks}</strong>,
     })
 
+  const getParticipantName = (participantId: string) =>
+    group?.participants.find(({ id }) => id === participantId)?.name ??
+    t('someone')
+
   if (activity.activityType == ActivityType.UPDATE_GROUP) {
     return <>{tr('settingsModified')}</>
   } else if (activity.activityType == ActivityType.CREATE_EXPENSE) {
@@ -39,6 +64,84 @@ function useSummary(activity: Activity, participantName?: string) {
     return <>{tr('expenseUpdated')}</>
   } else if (activity.activityType == ActivityType.DELETE_EXPENSE) {
     return <>{tr('expenseDeleted')}</>
+  } else if (activity.activityType == ActivityType.CREATE_REIMBURSEMENT) {
+    const details = parseActivityDetails(
+      reimbursementDetailsSchema,
+      activity.details,
+    )
+    if (!details || !group) return <>{tr('reimbursementCreated')}</>
+    return (
+      <>
+        {tr('reimbursementRecorded', {
+          amount: formatCurrency(
+            getCurrencyFromGroup(group),
+            details.amount,
+            locale,
+          ),
+          from: getParticipantName(details.fromId),
+          to: getParticipantName(details.toId),
+        })}
+      </>
+    )
+  } else if (activity.activityType == ActivityType.RESTORE_EXPENSE) {
+    return <>{tr('expenseRestored')}</>
+  } else if (activity.activityType == ActivityType.ADD_PARTICIPANT) {
+    return <>{tr('participantAdded', { name: activity.data ?? '' })}</>
+  } else if (activity.activityType == ActivityType.RENAME_PARTICIPANT) {
+    const details = parseActivityDetails(
+      participantRenamedDetailsSchema,
+      activity.details,
+    )
+    if (!details) return <>{tr('settingsModified')}</>
+    return <>{tr('participantRenamed', details)}</>
+  } else if (activity.activityType == ActivityType.REMOVE_PARTICIPANT) {
+    const details = parseActivityDetails(
+      participantActivityDetailsSchema,
+      activity.details,
+    )
+    const name = activity.data ?? ''
+    if (details?.reassignedToId)
+      return (
+        <>
+          {tr('participantRemovedReassigned', {
+            name,
+            to: getParticipantName(details.reassignedToId),
+          })}
+        </>
+      )
+    if (details?.archived) return <>{tr('participantArchived', { name })}</>
+    return <>{tr('participantRemoved', { name })}</>
+  } else if (activity.activityType == ActivityType.MERGE_PARTICIPANTS) {
+    const details = parseActivityDetails(
+      participantsMergedDetailsSchema,
+      activity.details,
+    )
+    if (!details) return <>{tr('settingsModified')}</>
+    return (
+      <>
+        {tr('participantsMerged', {
+          from: details.fromName,
+          to:
+            group?.participants.find(({ id }) => id === details.toId)?.name ??
+            details.toName,
+        })}
+      </>
+    )
+  } else if (activity.activityType == ActivityType.CHANGE_CURRENCY) {
+    const details = parseActivityDetails(
+      currencyChangedDetailsSchema,
+      activity.details,
+    )
+    if (!details) return <>{tr('settingsModified')}</>
+    return <>{tr('currencyChanged', details)}</>
+  } else if (activity.activityType == ActivityType.UPDATE_GROUP_INFORMATION) {
+    return <>{tr('informationEdited')}</>
+  } else if (activity.activityType == ActivityType.IMPORT_EXPENSES) {
+    const details = parseActivityDetails(
+      expensesImportedDetailsSchema,
+      activity.details,
+    )
+    return <>{tr('expensesImported', { count: details?.count ?? 0 })}</>
   }
 }
 
@@ -53,6 +156,10 @@ export function ActivityItem({
 
   const expenseExists = activity.expense !== undefined
   const summary = useSummary(activity, participant?.name)
+  const revision =
+    activity.activityType === ActivityType.UPDATE_EXPENSE
+      ? parseExpenseRevision(activity.details)
+      : null
 
   return (
     <div
@@ -78,6 +185,13 @@ export function ActivityItem({
       </div>
       <div className="flex-1">
         <div className="m-1">{summary}</div>
+        {revision && (
+          <ExpenseRevisionChanges
+            activityId={activity.id}
+            revision={revision}
+            canRevert={expenseExists}
+          />
+        )}
       </div>
       {expenseExists && (
         <Button
@@ -0,0 +1,197 @@
+'use client'
+import { AsyncButton } from '@/components/async-button'
+import { Button } from '@/components/ui/button'
+import { getCurrency } from '@/lib/currency'
+import {
+  ExpenseRevisionField,
+  getExpenseRevisionChanges,
+} from '@/lib/expense-revisions'
+import { useActiveUser } from '@/lib/hooks'
+import { ExpenseRevision, ExpenseSnapshot } from '@/lib/schemas'
+import {
+  formatCurrency,
+  formatDateOnly,
+  getCurrencyFromGroup,
+} from '@/lib/utils'
+import { trpc } from '@/trpc/client'
+import { SplitMode } from '@prisma/client'
+import { ChevronDown, ChevronUp, Undo2 } from 'lucide-react'
+import { useLocale, useTranslations } from 'next-intl'
+import { useState } from 'react'
+import { useCurrentGroup } from '../current-group-context'
+
+const splitModeKeys: Record<SplitMode, string> = {
+  EVENLY: 'evenly',
+  BY_SHARES: 'byShares',
+  BY_PERCENTAGE: 'byPercentage',
+  BY_AMOUNT: 'byAmount',
+  BY_ITEMS: 'byItems',
+}
+
+function useFormatSnapshotField() {
+  const t = useTranslations('Activity.Revision')
+  const tSplitMode = useTranslations('ExpenseForm.SplitModeField')
+  const tCategories = useTranslations('Categories')
+  const locale = useLocale()
+  const { group } = useCurrentGroup()
+  const { data: categoriesData } = trpc.categories.list.useQuery()
+
+  if (!group) return () => ''
+  const currency = getCurrencyFromGroup(group)
+
+  const getName = (participantId: string) =>
+    group.participants.find(({ id }) => id === participantId)?.name ??
+    t('unknownParticipant')
+  const formatAmount = (amount: number) =>
+    formatCurrency(currency, amount, locale)
+  const formatShares = (
+    splitMode: SplitMode,
+    shares: ExpenseSnapshot['paidFor'],
+  ) =>
+    shares
+      .map(({ participantId, shares }) => {
+        const name = getName(participantId)
+        if (splitMode === 'BY_SHARES') return `${name} (${shares / 100})`
+        if (splitMode === 'BY_PERCENTAGE') return `${name} (${shares / 100}%)`
+        if (splitMode === 'BY_AMOUNT')
+          return `${name} (${formatAmount(shares)})`
+        return name
+      })
+      .join(', ')
+
+  return (snapshot: ExpenseSnapshot, field: ExpenseRevisionField): string => {
+    switch (field) {
+      case 'title':
+        return snapshot.title
+      case 'amount':
+        return snapshot.originalAmount && snapshot.originalCurrency
+          ? `${formatAmount(snapshot.amount)} (${formatCurrency(
+              getCurrency(snapshot.originalCurrency),
+              snapshot.originalAmount,
+              locale,
+            )})`
+          : formatAmount(snapshot.amount)
+      case 'expenseDate':
+        return formatDateOnly(
+          new Date(`${snapshot.expenseDate}T00:00:00.000Z`),
+          locale,
+          { dateStyle: 'medium' },
+        )
+      case 'category': {
+        const category = categoriesData?.categories.find(
+          ({ id }) => id === snapshot.categoryId,
+        )
+        return category
+          ? tCategories(`${category.grouping}.${category.name}`)
+          : ''
+      }
+      case 'paidBy':
+        return snapshot.payers.length > 0
+          ? formatShares(snapshot.payersSplitMode, snapshot.payers)
+          : getName(snapshot.paidById)
+      case 'split': {
+        const details =
+          snapshot.splitMode === 'BY_ITEMS'
+            ? snapshot.items
+                .map(
+                  (item) =>
+                    `${item.label} (${formatAmount(
+                      item.amount,
+                    )}): ${item.participantIds.map(getName).join(', ')}`,
+                )
+                .join('; ')
+            : formatShares(snapshot.splitMode, snapshot.paidFor)
+        return `${tSplitMode(splitModeKeys[snapshot.splitMode])}: ${details}`
+      }
+      case 'isReimbursement':
+        return snapshot.isReimbursement ? t('yes') : t('no')
+      case 'notes':
+        return snapshot.notes ?? t('empty')
+    }
+  }
+}
+
+/**
+ * Changes made by an update of an expense, which can be reverted as long as
+ * the expense exists.
+ */
+export function ExpenseRevisionChanges({
+  activityId,
+  revision,
+  canRevert,
+}: {
+  activityId: string
+  revision: ExpenseRevision
+  canRevert: boolean
+}) {
+  const t = useTranslations('Activity.Revision')
+  const { groupId } = useCurrentGroup()
+  const activeUserId = useActiveUser(groupId)
+  const formatField = useFormatSnapshotField()
+  const [open, setOpen] = useState(false)
+  const { mutateAsync: revertExpense } =
+    trpc.groups.expenses.revert.useMutation()
+  const utils = trpc.useUtils()
+
+  const changes = getExpenseRevisionChanges(revision)
+  if (changes.length === 0) return null
+
+  return (
+    // The activity item navigates to the expense when clicked
+    <div className="m-1" onClick={(event) => event.stopPropagation()}>
+      <Button
+        variant="link"
+        size="sm"
+        className="h-auto p-0 text-xs text-muted-foreground"
+        onClick={() => setOpen((open) => !open)}
+      >
+        {open ? t('hideChanges') : t('showChanges', { count: changes.length })}
+        {open ? (
+          <ChevronUp className="w-3 h-3 ml-1" />
+        ) : (
+          <ChevronDown className="w-3 h-3 ml-1" />
+        )}
+      </Button>
+      {open && (
+        <div className="mt-2 flex flex-col gap-2">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            {changes.map((field) => (
+              <div key={field} className="contents">
+                <dt className="text-muted-foreground">
+                  {t(`fields.${field}`)}
+                </dt>
+                <dd className="break-words">
+                  <del className="text-muted-foreground">
+                    {formatField(revision.before, field)}
+                  </del>{' '}
+                  → {formatField(revision.after, field)}
+                </dd>
+              </div>
+            ))}
+          </dl>
+          {canRevert && (
+            <AsyncButton
+              type="button"
+              variant="outline"
+              size="sm"
+              className="self-start"
+              loadingContent={t('reverting')}
+              action={async () => {
+                await revertExpense({
+                  groupId,
+                  activityId,
+                  participantId: activeUserId ?? undefined,
+                })
+                await utils.groups.invalidate()
+                setOpen(false)
+              }}
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              {t('revert')}
+            </AsyncButton>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
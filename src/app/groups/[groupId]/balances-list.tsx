@@ -20,6 +20,8 @@ export function BalancesList({ balances, participants, currency }: Props) {
     <div className="text-sm">
       {participants.map((participant) => {
         const balance = balances[participant.id]?.total ?? 0
+        // Archived participants are only listed until they are settled
+        if (participant.archivedAt !== null && balance === 0) return null
         const isLeft = balance >= 0
         return (
           <div
@@ -7,7 +7,10 @@ import { useCurrentGroup } from '../current-group-context'
 export const EditGroup = () => {
   const { groupId } = useCurrentGroup()
   const { data, isLoading } = trpc.groups.getDetails.useQuery({ groupId })
+  const { data: categoriesData } = trpc.categories.list.useQuery()
   const { mutateAsync } = trpc.groups.update.useMutation()
+  const { mutateAsync: mergeParticipants } =
+    trpc.groups.participants.merge.useMutation()
   const utils = trpc.useUtils()
 
   if (isLoading) return <></>
@@ -20,6 +23,11 @@ export const EditGroup = () => {
         await utils.groups.invalidate()
       }}
       protectedParticipantIds={data?.participantsWithExpenses}
+      categories={categoriesData?.categories}
+      onMergeParticipants={async (fromId, toId, participantId) => {
+        await mergeParticipants({ groupId, fromId, toId, participantId })
+        await utils.groups.invalidate()
+      }}
     />
   )
 }
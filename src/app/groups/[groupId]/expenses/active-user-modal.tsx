@@ -123,14 +123,16 @@ function ActiveUserForm({
               {t('nobody')}
             </Label>
           </div>
-          {group?.participants.map((participant) => (
-            <div key={participant.id} className="flex items-center space-x-2">
-              <RadioGroupItem value={participant.id} id={participant.id} />
-              <Label htmlFor={participant.id} className="flex-1">
-                {participant.name}
-              </Label>
-            </div>
-          ))}
+          {group?.participants
+            .filter(({ archivedAt }) => archivedAt === null)
+            .map((participant) => (
+              <div key={participant.id} className="flex items-center space-x-2">
+                <RadioGroupItem value={participant.id} id={participant.id} />
+                <Label htmlFor={participant.id} className="flex-1">
+                  {participant.name}
+                </Label>
+              </div>
+            ))}
         </div>
       </RadioGroup>
       <Button type="submit">{t('save')}</Button>
@@ -1,50 +1,31 @@
 'use server'
+import { extractReceiptInformation } from '@/lib/ai'
+import { getAIProvider } from '@/lib/ai-provider'
 import { getCategories } from '@/lib/api'
 import { env } from '@/lib/env'
-import { formatCategoryForAIPrompt } from '@/lib/utils'
-import OpenAI from 'openai'
-import { ChatCompletionCreateParamsNonStreaming } from 'openai/resources/index.mjs'
-
-const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY })
+import { parseReceiptText, recognizeReceiptText } from '@/lib/receipt-ocr'
+import { getReceiptExtractedInfo } from '@/lib/receipts'
+import { fetchDocument } from '@/lib/storage'
 
 export async function extractExpenseInformationFromImage(imageUrl: string) {
   'use server'
   const categories = await getCategories()
 
-  const body: ChatCompletionCreateParamsNonStreaming = {
-    model: 'gpt-5-nano',
-    messages: [
-      {
-        role: 'user',
-        content: [
-          {
-            type: 'text',
-            text: `
-              This image contains a receipt.
-              Read the total amount and store it as a non-formatted number without any other text or currency.
-              Then guess the category for this receipt among the following categories and store its ID: ${categories.map(
-                (category) => formatCategoryForAIPrompt(category),
-              )}.
-              Guess the expense’s date and store it as yyyy-mm-dd.
-              Guess a title for the expense.
-              Return the amount, the category, the date and the title with just a comma between them, without anything else.`,
-          },
-        ],
-      },
-      {
-        role: 'user',
-        content: [{ type: 'image_url', image_url: { url: imageUrl } }],
-      },
-    ],
+  const image = await fetchDocument(imageUrl)
+
+  const provider = getAIProvider()
+  if (provider) {
+    // Send the image itself, as it might not be publicly reachable
+    const dataUrl = `data:${image.contentType};base64,${Buffer.from(
+      image.body,
+    ).toString('base64')}`
+    return extractReceiptInformation(provider, dataUrl, categories)
   }
-  const completion = await openai.chat.completions.create(body)
 
-  const [amountString, categoryId, date, title] = completion.choices
-    .at(0)
-    ?.message.content?.split(',') ?? [null, null, null, null]
-  return { amount: Number(amountString), categoryId, date, title }
+  // Without AI provider, fall back to reading the receipt with OCR
+  const text = await recognizeReceiptText(image.body, {
+    languages: env.RECEIPT_OCR_LANGUAGES.split(','),
+    langPath: env.RECEIPT_OCR_LANG_PATH,
+  })
+  return getReceiptExtractedInfo(parseReceiptText(text), categories)
 }
-
-export type ReceiptExtractedInfo = Awaited<
-  ReturnType<typeof extractExpenseInformationFromImage>
->
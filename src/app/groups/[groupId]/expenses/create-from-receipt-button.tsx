@@ -1,10 +1,7 @@
 'use client'
 
 import { CategoryIcon } from '@/app/groups/[groupId]/expenses/category-icon'
-import {
-  ReceiptExtractedInfo,
-  extractExpenseInformationFromImage,
-} from '@/app/groups/[groupId]/expenses/create-from-receipt-button-actions'
+import { extractExpenseInformationFromImage } from '@/app/groups/[groupId]/expenses/create-from-receipt-button-actions'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import {
@@ -25,7 +22,9 @@ import {
 } from '@/components/ui/drawer'
 import { ToastAction } from '@/components/ui/toast'
 import { useToast } from '@/components/ui/use-toast'
-import { useMediaQuery } from '@/lib/hooks'
+import { RuntimeFeatureFlags } from '@/lib/featureFlags'
+import { useDocumentUpload, useMediaQuery } from '@/lib/hooks'
+import { ReceiptExtractedInfo } from '@/lib/receipts'
 import {
   formatCurrency,
   formatDate,
@@ -35,7 +34,7 @@ import {
 import { trpc } from '@/trpc/client'
 import { ChevronRight, FileQuestion, Loader2, Receipt } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
-import { getImageData, usePresignedUpload } from 'next-s3-upload'
+import { getImageData } from 'next-s3-upload'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
 import { PropsWithChildren, ReactNode, useState } from 'react'
@@ -43,7 +42,11 @@ import { useCurrentGroup } from '../current-group-context'
 
 const MAX_FILE_SIZE = 5 * 1024 ** 2
 
-export function CreateFromReceiptButton() {
+export function CreateFromReceiptButton({
+  storageDriver,
+}: {
+  storageDriver: RuntimeFeatureFlags['storageDriver']
+}) {
   const t = useTranslations('CreateFromReceipt')
   const isDesktop = useMediaQuery('(min-width: 640px)')
 
@@ -72,12 +75,16 @@ export function CreateFromReceiptButton() {
       }
       description={<>{t('Dialog.description')}</>}
     >
-      <ReceiptDialogContent />
+      <ReceiptDialogContent storageDriver={storageDriver} />
     </DialogOrDrawer>
   )
 }
 
-function ReceiptDialogContent() {
+function ReceiptDialogContent({
+  storageDriver,
+}: {
+  storageDriver: RuntimeFeatureFlags['storageDriver']
+}) {
   const { group } = useCurrentGroup()
   const { data: categoriesData } = trpc.categories.list.useQuery()
   const categories = categoriesData?.categories
@@ -85,7 +92,8 @@ function ReceiptDialogContent() {
   const locale = useLocale()
   const t = useTranslations('CreateFromReceipt')
   const [pending, setPending] = useState(false)
-  const { uploadToS3, FileInput, openFileDialog } = usePresignedUpload()
+  const { uploadDocument, FileInput, openFileDialog } =
+    useDocumentUpload(storageDriver)
   const { toast } = useToast()
   const router = useRouter()
   const [receiptInfo, setReceiptInfo] = useState<
@@ -110,12 +118,11 @@ function ReceiptDialogContent() {
       try {
         setPending(true)
         console.log('Uploading image…')
-        let { url } = await uploadToS3(file)
+        let { url } = await uploadDocument(file)
         console.log('Extracting information from receipt…')
-        const { amount, categoryId, date, title } =
-          await extractExpenseInformationFromImage(url)
+        const extractedInfo = await extractExpenseInformationFromImage(url)
         const { width, height } = await getImageData(file)
-        setReceiptInfo({ amount, categoryId, date, title, url, width, height })
+        setReceiptInfo({ ...extractedInfo, url, width, height })
       } catch (err) {
         console.error(err)
         toast({
@@ -140,7 +147,7 @@ function ReceiptDialogContent() {
 
   const receiptInfoCategory =
     (receiptInfo?.categoryId &&
-      categories?.find((c) => String(c.id) === receiptInfo.categoryId)) ||
+      categories?.find((c) => c.id === receiptInfo.categoryId)) ||
     null
 
   return (
@@ -239,25 +246,74 @@ function ReceiptDialogContent() {
               )}
             </div>
           </div>
+          {receiptInfo && group && receiptInfo.items.length > 0 && (
+            <div className="col-span-3">
+              <strong>{t('Dialog.itemsLabel')}</strong>
+              <ul className="my-0 max-h-32 overflow-y-auto">
+                {receiptInfo.items.map((item, index) => (
+                  <li key={index} className="flex justify-between gap-2 my-0">
+                    <span>{item.label}</span>
+                    <span className="tabular-nums">
+                      {formatCurrency(
+                        getCurrencyFromGroup(group),
+                        item.amount,
+                        locale,
+                        true,
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {(!!receiptInfo.tax || !!receiptInfo.tip) && (
+                <div className="text-muted-foreground">
+                  {t('Dialog.taxAndTip', {
+                    amount: formatCurrency(
+                      getCurrencyFromGroup(group),
+                      (receiptInfo.tax ?? 0) + (receiptInfo.tip ?? 0),
+                      locale,
+                      true,
+                    ),
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+          {receiptInfo?.currency &&
+            group?.currencyCode &&
+            receiptInfo.currency !== group.currencyCode && (
+              <div className="col-span-3 text-muted-foreground">
+                {t('Dialog.currencyMismatch', {
+                  currency: receiptInfo.currency,
+                })}
+              </div>
+            )}
         </div>
       </div>
-      <p>{t('Dialog.editNext')}</p>
+      <p>
+        {receiptInfo && receiptInfo.items.length > 0
+          ? t('Dialog.assignItemsNext')
+          : t('Dialog.editNext')}
+      </p>
       <div className="text-center">
         <Button
           disabled={pending || !receiptInfo}
           onClick={() => {
             if (!receiptInfo || !group) return
-            router.push(
-              `/groups/${group.id}/expenses/create?amount=${
-                receiptInfo.amount
-              }&categoryId=${receiptInfo.categoryId}&date=${
-                receiptInfo.date
-              }&title=${encodeURIComponent(
-                receiptInfo.title ?? '',
-              )}&imageUrl=${encodeURIComponent(receiptInfo.url)}&imageWidth=${
-                receiptInfo.width
-              }&imageHeight=${receiptInfo.height}`,
-            )
+            const params = new URLSearchParams({
+              title: receiptInfo.title ?? '',
+              imageUrl: receiptInfo.url,
+              imageWidth: String(receiptInfo.width),
+              imageHeight: String(receiptInfo.height),
+            })
+            if (receiptInfo.amount)
+              params.set('amount', `${receiptInfo.amount}`)
+            if (receiptInfo.categoryId !== null)
+              params.set('categoryId', `${receiptInfo.categoryId}`)
+            if (receiptInfo.date) params.set('date', receiptInfo.date)
+            // Line items prefill an expense split by items
+            if (receiptInfo.items.length > 0)
+              params.set('items', JSON.stringify(receiptInfo.items))
+            router.push(`/groups/${group.id}/expenses/create?${params}`)
           }}
         >
           {t('Dialog.continue')}
@@ -0,0 +1,286 @@
+'use client'
+import { AsyncButton } from '@/components/async-button'
+import { CategorySelector } from '@/components/category-selector'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useActiveUser } from '@/lib/hooks'
+import { BulkExpenseChanges } from '@/lib/schemas'
+import { trpc } from '@/trpc/client'
+import { ChevronDown, Trash2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useState } from 'react'
+import { useCurrentGroup } from '../current-group-context'
+
+type BulkField = 'category' | 'paidBy' | 'paidFor' | 'expenseDate'
+
+const bulkFields: BulkField[] = ['category', 'paidBy', 'paidFor', 'expenseDate']
+
+function BulkEditDialog({
+  field,
+  count,
+  onClose,
+  onSubmit,
+}: {
+  field: BulkField
+  count: number
+  onClose: () => void
+  onSubmit: (changes: BulkExpenseChanges) => Promise<void>
+}) {
+  const t = useTranslations('Expenses.BulkActions')
+  const { group } = useCurrentGroup()
+  const participants =
+    group?.participants.filter(({ archivedAt }) => archivedAt === null) ?? []
+  const { data: categoriesData } = trpc.categories.list.useQuery()
+  const [category, setCategory] = useState(0)
+  const [paidBy, setPaidBy] = useState<string>()
+  const [paidFor, setPaidFor] = useState<string[]>(
+    participants.map((participant) => participant.id),
+  )
+  const [expenseDate, setExpenseDate] = useState(
+    new Date().toISOString().substring(0, 10),
+  )
+
+  const changes: BulkExpenseChanges | null =
+    field === 'category'
+      ? { category }
+      : field === 'paidBy'
+      ? paidBy
+        ? { paidBy }
+        : null
+      : field === 'paidFor'
+      ? paidFor.length > 0
+        ? { paidFor }
+        : null
+      : expenseDate
+      ? { expenseDate: new Date(expenseDate) }
+      : null
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogTitle>{t(`${field}.title`, { count })}</DialogTitle>
+        <DialogDescription>{t(`${field}.description`)}</DialogDescription>
+        {field === 'category' && (
+          <CategorySelector
+            categories={categoriesData?.categories ?? []}
+            defaultValue={category}
+            onValueChange={setCategory}
+            isLoading={!categoriesData}
+          />
+        )}
+        {field === 'paidBy' && (
+          <Select value={paidBy} onValueChange={setPaidBy}>
+            <SelectTrigger>
+              <SelectValue placeholder={t('paidBy.placeholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              {participants.map(({ id, name }) => (
+                <SelectItem key={id} value={id}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {field === 'paidFor' && (
+          <div className="flex flex-col gap-3">
+            {participants.map(({ id, name }) => (
+              <div key={id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`bulk-paid-for-${id}`}
+                  checked={paidFor.includes(id)}
+                  onCheckedChange={(checked) =>
+                    setPaidFor((paidFor) =>
+                      checked
+                        ? [...paidFor, id]
+                        : paidFor.filter((participant) => participant !== id),
+                    )
+                  }
+                />
+                <Label htmlFor={`bulk-paid-for-${id}`}>{name}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+        {field === 'expenseDate' && (
+          <Input
+            type="date"
+            className="date-base"
+            value={expenseDate}
+            onChange={(event) => setExpenseDate(event.target.value)}
+          />
+        )}
+        <DialogFooter className="flex flex-col gap-2">
+          <AsyncButton
+            type="button"
+            disabled={!changes}
+            loadingContent={t('saving')}
+            action={async () => {
+              if (changes) await onSubmit(changes)
+            }}
+          >
+            {t('save', { count })}
+          </AsyncButton>
+          <DialogClose asChild>
+            <Button variant="secondary">{t('cancel')}</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function BulkDeleteDialog({
+  count,
+  onDelete,
+}: {
+  count: number
+  onDelete: () => Promise<void>
+}) {
+  const t = useTranslations('Expenses.BulkActions')
+  const [open, setOpen] = useState(false)
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Button
+        variant="destructive"
+        size="sm"
+        disabled={count === 0}
+        onClick={() => setOpen(true)}
+      >
+        <Trash2 className="w-4 h-4 mr-2" />
+        {t('delete.label')}
+      </Button>
+      <DialogContent>
+        <DialogTitle>{t('delete.title', { count })}</DialogTitle>
+        <DialogDescription>{t('delete.description')}</DialogDescription>
+        <DialogFooter className="flex flex-col gap-2">
+          <AsyncButton
+            type="button"
+            variant="destructive"
+            loadingContent={t('deleting')}
+            action={async () => {
+              await onDelete()
+              setOpen(false)
+            }}
+          >
+            {t('delete.yes')}
+          </AsyncButton>
+          <DialogClose asChild>
+            <Button variant="secondary">{t('cancel')}</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * Actions applied to the expenses selected in the expense list.
+ */
+export function ExpenseBulkActions({
+  selectedIds,
+  allIds,
+  onSelectionChange,
+  onDone,
+}: {
+  selectedIds: string[]
+  /** IDs of the expenses currently loaded in the list. */
+  allIds: string[]
+  onSelectionChange: (selectedIds: string[] | null) => void
+  onDone: () => Promise<void>
+}) {
+  const t = useTranslations('Expenses.BulkActions')
+  const { groupId } = useCurrentGroup()
+  const activeUserId = useActiveUser(groupId)
+  const [field, setField] = useState<BulkField | null>(null)
+  const { mutateAsync: updateBatch } =
+    trpc.groups.expenses.updateBatch.useMutation()
+  const { mutateAsync: deleteBatch } =
+    trpc.groups.expenses.deleteBatch.useMutation()
+
+  const count = selectedIds.length
+  const allSelected = allIds.length > 0 && count === allIds.length
+
+  return (
+    <div className="mx-4 sm:mx-6 flex flex-wrap items-center gap-2 text-sm py-2">
+      <Checkbox
+        checked={allSelected}
+        onCheckedChange={(checked) => onSelectionChange(checked ? allIds : [])}
+        aria-label={t('selectAll')}
+      />
+      <span className="flex-1">{t('selected', { count })}</span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={count === 0}>
+            {t('edit')}
+            <ChevronDown className="w-4 h-4 ml-2" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {bulkFields.map((bulkField) => (
+            <DropdownMenuItem
+              key={bulkField}
+              onSelect={() => setField(bulkField)}
+            >
+              {t(`${bulkField}.label`)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <BulkDeleteDialog
+        count={count}
+        onDelete={async () => {
+          await deleteBatch({
+            groupId,
+            expenseIds: selectedIds,
+            participantId: activeUserId ?? undefined,
+          })
+          await onDone()
+        }}
+      />
+      <Button variant="ghost" size="sm" onClick={() => onSelectionChange(null)}>
+        {t('cancel')}
+      </Button>
+      {field && (
+        <BulkEditDialog
+          field={field}
+          count={count}
+          onClose={() => setField(null)}
+          onSubmit={async (changes) => {
+            await updateBatch({
+              groupId,
+              expenseIds: selectedIds,
+              changes,
+              participantId: activeUserId ?? undefined,
+            })
+            setField(null)
+            await onDone()
+          }}
+        />
+      )}
+    </div>
+  )
+}
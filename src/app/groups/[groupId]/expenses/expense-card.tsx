@@ -2,24 +2,29 @@
 import { ActiveUserBalance } from '@/app/groups/[groupId]/expenses/active-user-balance'
 import { CategoryIcon } from '@/app/groups/[groupId]/expenses/category-icon'
 import { DocumentsCount } from '@/app/groups/[groupId]/expenses/documents-count'
+import { Highlight, Mark } from '@/components/highlight'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import { getGroupExpenses } from '@/lib/api'
 import { Currency } from '@/lib/currency'
+import { getSearchAmount } from '@/lib/expense-filters'
 import { cn, formatCurrency, formatDateOnly } from '@/lib/utils'
 import { ChevronRight } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { Fragment } from 'react'
+import { Children, Fragment } from 'react'
 
 type Expense = Awaited<ReturnType<typeof getGroupExpenses>>[number]
 
 function Participants({
   expense,
   participantCount,
+  searchTerms,
 }: {
   expense: Expense
   participantCount: number
+  searchTerms: string[]
 }) {
   const t = useTranslations('ExpenseCard')
   const key = expense.amount > 0 ? 'paidBy' : 'receivedBy'
@@ -30,14 +35,29 @@ function Participants({
       expense.paidFor.map((paidFor, index) => (
         <Fragment key={index}>
           {index !== 0 && <>, </>}
-          <strong>{paidFor.participant.name}</strong>
+          <strong>
+            <Highlight text={paidFor.participant.name} terms={searchTerms} />
+          </strong>
         </Fragment>
       ))
     )
 
   const participants = t.rich(key, {
-    strong: (chunks) => <strong>{chunks}</strong>,
-    paidBy: expense.paidBy.name,
+    strong: (chunks) => (
+      <strong>
+        {Children.map(chunks, (chunk) =>
+          typeof chunk === 'string' ? (
+            <Highlight text={chunk} terms={searchTerms} />
+          ) : (
+            chunk
+          ),
+        )}
+      </strong>
+    ),
+    paidBy:
+      expense.payers.length > 0
+        ? expense.payers.map(({ participant }) => participant.name).join(', ')
+        : expense.paidBy.name,
     paidFor: () => paidFor,
     forCount: expense.paidFor.length,
   })
@@ -49,6 +69,10 @@ type Props = {
   currency: Currency
   groupId: string
   participantCount: number
+  /** Words of the current search, highlighted in the expense. */
+  searchTerms?: string[]
+  /** Set in selection mode: clicking the expense selects it. */
+  selection?: { selected: boolean; onSelectedChange: () => void }
 }
 
 export function ExpenseCard({
@@ -56,9 +80,19 @@ export function ExpenseCard({
   currency,
   groupId,
   participantCount,
+  searchTerms = [],
+  selection,
 }: Props) {
   const router = useRouter()
   const locale = useLocale()
+  const notesMatch =
+    expense.notes &&
+    searchTerms.some(
+      (term) => expense.notes?.toLowerCase().includes(term.toLowerCase()),
+    )
+  const amountMatches = searchTerms.some(
+    (term) => getSearchAmount(term, currency) === Math.abs(expense.amount),
+  )
 
   return (
     <div
@@ -66,21 +100,40 @@ export function ExpenseCard({
       className={cn(
         'flex justify-between sm:mx-6 px-4 sm:rounded-lg sm:pr-2 sm:pl-4 py-4 text-sm cursor-pointer hover:bg-accent gap-1 items-stretch',
         expense.isReimbursement && 'italic',
+        selection?.selected && 'bg-accent',
       )}
       onClick={() => {
-        router.push(`/groups/${groupId}/expenses/${expense.id}/edit`)
+        if (selection) selection.onSelectedChange()
+        else router.push(`/groups/${groupId}/expenses/${expense.id}/edit`)
       }}
     >
+      {selection && (
+        <Checkbox
+          checked={selection.selected}
+          className="mr-2 mt-0.5"
+          onClick={(event) => event.stopPropagation()}
+          onCheckedChange={selection.onSelectedChange}
+        />
+      )}
       <CategoryIcon
         category={expense.category}
         className="w-4 h-4 mr-2 mt-0.5 text-muted-foreground"
       />
       <div className="flex-1">
         <div className={cn('mb-1', expense.isReimbursement && 'italic')}>
-          {expense.title}
+          <Highlight text={expense.title} terms={searchTerms} />
         </div>
+        {notesMatch && (
+          <div className="text-xs text-muted-foreground line-clamp-2 mb-1">
+            <Highlight text={expense.notes ?? ''} terms={searchTerms} />
+          </div>
+        )}
         <div className="text-xs text-muted-foreground">
-          <Participants expense={expense} participantCount={participantCount} />
+          <Participants
+            expense={expense}
+            participantCount={participantCount}
+            searchTerms={searchTerms}
+          />
         </div>
         <div className="text-xs text-muted-foreground">
           <ActiveUserBalance {...{ groupId, currency, expense }} />
@@ -93,7 +146,11 @@ export function ExpenseCard({
             expense.isReimbursement ? 'italic' : 'font-bold',
           )}
         >
-          {formatCurrency(currency, expense.amount, locale)}
+          {amountMatches ? (
+            <Mark>{formatCurrency(currency, expense.amount, locale)}</Mark>
+          ) : (
+            formatCurrency(currency, expense.amount, locale)
+          )}
         </div>
         <div className="text-xs text-muted-foreground">
           <DocumentsCount count={expense._count.documents} />
@@ -1,6 +1,7 @@
 import { CategorySelector } from '@/components/category-selector'
 import { CurrencySelector } from '@/components/currency-selector'
 import { ExpenseDocumentsInput } from '@/components/expense-documents-input'
+import { RecurrenceFields } from '@/components/recurrence-fields'
 import { SubmitButton } from '@/components/submit-button'
 import { Button } from '@/components/ui/button'
 import {
@@ -33,15 +34,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import { Locale } from '@/i18n/request'
 import { randomId } from '@/lib/api'
-import { defaultCurrencyList, getCurrency } from '@/lib/currency'
+import { Currency, defaultCurrencyList, getCurrency } from '@/lib/currency'
 import { RuntimeFeatureFlags } from '@/lib/featureFlags'
 import { useActiveUser, useCurrencyRate } from '@/lib/hooks'
+import { getGroupDefaultSplit } from '@/lib/participants'
+import { defaultRecurrence, getRecurrenceFormValues } from '@/lib/recurrence'
 import {
   ExpenseFormValues,
+  PayersSplitMode,
   SplittingOptions,
   expenseFormSchema,
+  receiptExtractionSchema,
 } from '@/lib/schemas'
 import { calculateShare } from '@/lib/totals'
 import {
@@ -53,13 +66,12 @@ import {
 } from '@/lib/utils'
 import { AppRouterOutput } from '@/trpc/routers/_app'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { RecurrenceRule } from '@prisma/client'
-import { ChevronRight, Save } from 'lucide-react'
+import { ChevronRight, Plus, Save, Trash2 } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { useEffect, useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { UseFormReturn, useForm } from 'react-hook-form'
 import { match } from 'ts-pattern'
 import { DeletePopup } from '../../../../components/delete-popup'
 import { extractCategoryFromTitle } from '../../../../components/expense-form-actions'
@@ -77,11 +89,13 @@ const enforceCurrencyPattern = (value: string) =>
 const getDefaultSplittingOptions = (
   group: NonNullable<AppRouterOutput['groups']['get']['group']>,
 ) => {
+  // Defaults of the group, shared by everyone, unless overridden on this device
+  const groupDefaultSplit = getGroupDefaultSplit(group)
   const defaultValue = {
-    splitMode: 'EVENLY' as const,
-    paidFor: group.participants.map(({ id }) => ({
-      participant: id,
-      shares: '1' as any, // Use string to ensure consistent schema handling
+    splitMode: groupDefaultSplit.splitMode,
+    paidFor: groupDefaultSplit.paidFor.map(({ participantId, shares }) => ({
+      participant: participantId,
+      shares: (shares / 100).toString() as any, // Use string to ensure consistent schema handling
     })),
   }
 
@@ -118,6 +132,29 @@ const getDefaultSplittingOptions = (
   }
 }
 
+/**
+ * Line items passed by the receipt scanner, assigned to every participant by default.
+ */
+const getItemsFromSearchParams = (
+  searchParams: URLSearchParams,
+  participantIds: string[],
+): ExpenseFormValues['items'] => {
+  const items = searchParams.get('items')
+  if (!items) return []
+  try {
+    const parsedItems = receiptExtractionSchema.shape.items.parse(
+      JSON.parse(items),
+    )
+    return parsedItems.map(({ label, amount }) => ({
+      label,
+      amount,
+      participants: participantIds,
+    }))
+  } catch {
+    return []
+  }
+}
+
 async function persistDefaultSplittingOptions(
   groupId: string,
   expenseFormValues: ExpenseFormValues,
@@ -129,7 +166,10 @@ async function persistDefaultSplittingOptions(
           participant,
           shares: 100,
         }))
-      } else if (expenseFormValues.splitMode === 'BY_AMOUNT') {
+      } else if (
+        expenseFormValues.splitMode === 'BY_AMOUNT' ||
+        expenseFormValues.splitMode === 'BY_ITEMS'
+      ) {
         return null
       } else {
         return expenseFormValues.paidFor
@@ -149,7 +189,7 @@ async function persistDefaultSplittingOptions(
 }
 
 export function ExpenseForm({
-  group,
+  group: groupWithArchivedParticipants,
   categories,
   expense,
   onSubmit,
@@ -166,6 +206,25 @@ export function ExpenseForm({
   const t = useTranslations('ExpenseForm')
   const locale = useLocale() as Locale
   const isCreate = expense === undefined
+
+  // Archived participants can only be selected on the expenses they are part of
+  const expenseParticipantIds = expense
+    ? [
+        expense.paidById,
+        ...expense.payers.map(({ participantId }) => participantId),
+        ...expense.paidFor.map(({ participantId }) => participantId),
+        ...expense.items.flatMap(({ participants }) =>
+          participants.map(({ participantId }) => participantId),
+        ),
+      ]
+    : []
+  const group = {
+    ...groupWithArchivedParticipants,
+    participants: groupWithArchivedParticipants.participants.filter(
+      ({ id, archivedAt }) =>
+        archivedAt === null || expenseParticipantIds.includes(id),
+    ),
+  }
   const searchParams = useSearchParams()
 
   const getSelectedPayer = (field?: { value: string }) => {
@@ -178,10 +237,20 @@ export function ExpenseForm({
     return field?.value
   }
 
-  const getSelectedRecurrenceRule = (field?: { value: string }) => {
-    return field?.value as RecurrenceRule
-  }
   const defaultSplittingOptions = getDefaultSplittingOptions(group)
+  // Participants added to a split by shares get their default shares, a
+  // weight would not make sense as a percentage or an amount
+  const getParticipantWeight = (participantId: string) =>
+    form.getValues('splitMode') === 'BY_SHARES'
+      ? (
+          (group.participants.find(({ id }) => id === participantId)
+            ?.defaultShares ?? 100) / 100
+        ).toString()
+      : '1'
+  const itemsFromSearchParams = getItemsFromSearchParams(
+    searchParams,
+    defaultSplittingOptions.paidFor.map(({ participant }) => participant),
+  )
   const groupCurrency = getCurrencyFromGroup(group)
   const form = useForm<ExpenseFormValues>({
     resolver: zodResolver(expenseFormSchema),
@@ -195,6 +264,13 @@ export function ExpenseForm({
           conversionRate: expense.conversionRate?.toNumber(),
           category: expense.categoryId,
           paidBy: expense.paidById,
+          payers: expense.payers.map(({ participantId, shares }) => ({
+            participant: participantId,
+            shares: (expense.payersSplitMode === 'BY_AMOUNT'
+              ? amountAsDecimal(shares, groupCurrency)
+              : (shares / 100).toString()) as any, // Convert to string to ensure consistent handling
+          })),
+          payersSplitMode: expense.payersSplitMode as PayersSplitMode,
           paidFor: expense.paidFor.map(({ participantId, shares }) => ({
             participant: participantId,
             shares: (expense.splitMode === 'BY_AMOUNT'
@@ -202,11 +278,19 @@ export function ExpenseForm({
               : (shares / 100).toString()) as any, // Convert to string to ensure consistent handling
           })),
           splitMode: expense.splitMode,
+          items: expense.items.map(({ id, label, amount, participants }) => ({
+            id,
+            label,
+            amount: amountAsDecimal(amount, groupCurrency),
+            participants: participants.map(
+              ({ participantId }) => participantId,
+            ),
+          })),
           saveDefaultSplittingOptions: false,
           isReimbursement: expense.isReimbursement,
           documents: expense.documents,
           notes: expense.notes ?? '',
-          recurrenceRule: expense.recurrenceRule ?? undefined,
+          recurrence: getRecurrenceFormValues(expense.recurrenceRule),
         }
       : searchParams.get('reimbursement')
       ? {
@@ -221,6 +305,8 @@ export function ExpenseForm({
           conversionRate: undefined,
           category: 1, // category with Id 1 is Payment
           paidBy: searchParams.get('from') ?? undefined,
+          payers: [],
+          payersSplitMode: 'EVENLY',
           paidFor: [
             searchParams.get('to')
               ? {
@@ -231,10 +317,11 @@ export function ExpenseForm({
           ],
           isReimbursement: true,
           splitMode: defaultSplittingOptions.splitMode,
+          items: [],
           saveDefaultSplittingOptions: false,
           documents: [],
           notes: '',
-          recurrenceRule: RecurrenceRule.NONE,
+          recurrence: defaultRecurrence,
         }
       : {
           title: searchParams.get('title') ?? '',
@@ -247,12 +334,21 @@ export function ExpenseForm({
           conversionRate: undefined,
           category: searchParams.get('categoryId')
             ? Number(searchParams.get('categoryId'))
-            : 0, // category with Id 0 is General
-          // paid for all, split evenly
+            : group.defaultCategoryId,
+          // split of the group, unless overridden on this device
           paidFor: defaultSplittingOptions.paidFor,
-          paidBy: getSelectedPayer(),
+          paidBy:
+            getSelectedPayer() ??
+            group.participants.find(({ id }) => id === group.defaultPayerId)
+              ?.id,
+          payers: [],
+          payersSplitMode: 'EVENLY',
           isReimbursement: false,
-          splitMode: defaultSplittingOptions.splitMode,
+          splitMode:
+            itemsFromSearchParams.length > 0
+              ? 'BY_ITEMS'
+              : defaultSplittingOptions.splitMode,
+          items: itemsFromSearchParams,
           saveDefaultSplittingOptions: false,
           documents: searchParams.get('imageUrl')
             ? [
@@ -265,7 +361,7 @@ export function ExpenseForm({
               ]
             : [],
           notes: '',
-          recurrenceRule: RecurrenceRule.NONE,
+          recurrence: defaultRecurrence,
         },
   })
   const [isCategoryLoading, setCategoryLoading] = useState(false)
@@ -276,6 +372,13 @@ export function ExpenseForm({
 
     // Store monetary amounts in minor units (cents)
     values.amount = amountAsMinorUnits(values.amount, groupCurrency)
+    values.payers = values.payers.map(({ participant, shares }) => ({
+      participant,
+      shares:
+        values.payersSplitMode === 'BY_AMOUNT'
+          ? amountAsMinorUnits(shares, groupCurrency)
+          : shares,
+    }))
     values.paidFor = values.paidFor.map(({ participant, shares }) => ({
       participant,
       shares:
@@ -283,6 +386,10 @@ export function ExpenseForm({
           ? amountAsMinorUnits(shares, groupCurrency)
           : shares,
     }))
+    values.items = values.items.map((item) => ({
+      ...item,
+      amount: amountAsMinorUnits(item.amount, groupCurrency),
+    }))
 
     // Currency should be blank if same as group currency
     if (!conversionRequired) {
@@ -293,6 +400,9 @@ export function ExpenseForm({
   }
 
   const [isIncome, setIsIncome] = useState(Number(form.getValues().amount) < 0)
+  const [hasMultiplePayers, setHasMultiplePayers] = useState(
+    form.getValues().payers.length > 0,
+  )
   const [manuallyEditedParticipants, setManuallyEditedParticipants] = useState<
     Set<string>
   >(new Set())
@@ -734,7 +844,7 @@ export function ExpenseForm({
                   <FormLabel>{t(`${sExpense}.paidByField.label`)}</FormLabel>
                   <Select
                     onValueChange={field.onChange}
-                    defaultValue={getSelectedPayer(field)}
+                    value={getSelectedPayer(field)}
                   >
                     <SelectTrigger>
                       <SelectValue
@@ -753,6 +863,35 @@ export function ExpenseForm({
                     {t(`${sExpense}.paidByField.description`)}
                   </FormDescription>
                   <FormMessage />
+
+                  <FormItem className="flex flex-row gap-2 items-center space-y-0 pt-2">
+                    <FormControl>
+                      <Checkbox
+                        checked={hasMultiplePayers}
+                        onCheckedChange={(checked) => {
+                          setHasMultiplePayers(!!checked)
+                          const paidBy = form.getValues('paidBy')
+                          form.setValue(
+                            'payers',
+                            checked && paidBy
+                              ? [
+                                  {
+                                    participant: paidBy,
+                                    shares: '1' as any, // Use string to ensure consistent schema handling
+                                  },
+                                ]
+                              : [],
+                            { shouldDirty: true, shouldValidate: true },
+                          )
+                        }}
+                      />
+                    </FormControl>
+                    <div>
+                      <FormLabel>
+                        {t(`${sExpense}.paidByField.multiple`)}
+                      </FormLabel>
+                    </div>
+                  </FormItem>
                 </FormItem>
               )}
             />
@@ -768,46 +907,20 @@ export function ExpenseForm({
                 </FormItem>
               )}
             />
-            <FormField
-              control={form.control}
-              name="recurrenceRule"
-              render={({ field }) => (
-                <FormItem className="sm:order-5">
-                  <FormLabel>{t(`${sExpense}.recurrenceRule.label`)}</FormLabel>
-                  <Select
-                    onValueChange={(value) => {
-                      form.setValue('recurrenceRule', value as RecurrenceRule)
-                    }}
-                    defaultValue={getSelectedRecurrenceRule(field)}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="NONE" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="NONE">
-                        {t(`${sExpense}.recurrenceRule.none`)}
-                      </SelectItem>
-                      <SelectItem value="DAILY">
-                        {t(`${sExpense}.recurrenceRule.daily`)}
-                      </SelectItem>
-                      <SelectItem value="WEEKLY">
-                        {t(`${sExpense}.recurrenceRule.weekly`)}
-                      </SelectItem>
-                      <SelectItem value="MONTHLY">
-                        {t(`${sExpense}.recurrenceRule.monthly`)}
-                      </SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormDescription>
-                    {t(`${sExpense}.recurrenceRule.description`)}
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="sm:order-5">
+              <RecurrenceFields
+                form={form}
+                anchorDate={form.watch('expenseDate')}
+                description={t(`RecurrenceField.description${sExpense}`)}
+              />
+            </div>
           </CardContent>
         </Card>
 
+        {hasMultiplePayers && (
+          <PayersCard form={form} group={group} sExpense={sExpense} />
+        )}
+
         <Card className="mt-4">
           <CardHeader>
             <CardTitle className="flex justify-between">
@@ -815,7 +928,10 @@ export function ExpenseForm({
               <Button
                 variant="link"
                 type="button"
-                className="-my-2 -mx-4"
+                className={cn(
+                  '-my-2 -mx-4',
+                  form.watch('splitMode') === 'BY_ITEMS' && 'hidden',
+                )}
                 onClick={() => {
                   const paidFor = form.getValues().paidFor
                   const allSelected =
@@ -826,7 +942,7 @@ export function ExpenseForm({
                         participant: p.id,
                         shares: (paidFor.find(
                           (pfor) => pfor.participant === p.id,
-                        )?.shares ?? '1') as any, // Use string to ensure consistent schema handling
+                        )?.shares ?? getParticipantWeight(p.id)) as any, // Use string to ensure consistent schema handling
                       }))
                   form.setValue('paidFor', newPaidFor as any, {
                     shouldDirty: true,
@@ -848,113 +964,220 @@ export function ExpenseForm({
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <FormField
-              control={form.control}
-              name="paidFor"
-              render={() => (
-                <FormItem className="sm:order-4 row-span-2 space-y-0">
-                  {group.participants.map(({ id, name }) => (
-                    <FormField
-                      key={id}
-                      control={form.control}
-                      name="paidFor"
-                      render={({ field }) => {
-                        return (
-                          <div
-                            data-id={`${id}/${form.getValues().splitMode}/${
-                              group.currency
-                            }`}
-                            className="flex flex-wrap gap-y-4 items-center border-t last-of-type:border-b last-of-type:!mb-4 -mx-6 px-6 py-3"
-                          >
-                            <FormItem className="flex-1 flex flex-row items-start space-x-3 space-y-0">
-                              <FormControl>
-                                <Checkbox
-                                  checked={field.value?.some(
+            {form.watch('splitMode') === 'BY_ITEMS' ? (
+              <ItemsField
+                form={form}
+                group={group}
+                groupCurrency={groupCurrency}
+              />
+            ) : (
+              <FormField
+                control={form.control}
+                name="paidFor"
+                render={() => (
+                  <FormItem className="sm:order-4 row-span-2 space-y-0">
+                    {group.participants.map(({ id, name }) => (
+                      <FormField
+                        key={id}
+                        control={form.control}
+                        name="paidFor"
+                        render={({ field }) => {
+                          return (
+                            <div
+                              data-id={`${id}/${form.getValues().splitMode}/${
+                                group.currency
+                              }`}
+                              className="flex flex-wrap gap-y-4 items-center border-t last-of-type:border-b last-of-type:!mb-4 -mx-6 px-6 py-3"
+                            >
+                              <FormItem className="flex-1 flex flex-row items-start space-x-3 space-y-0">
+                                <FormControl>
+                                  <Checkbox
+                                    checked={field.value?.some(
+                                      ({ participant }) => participant === id,
+                                    )}
+                                    onCheckedChange={(checked) => {
+                                      const options = {
+                                        shouldDirty: true,
+                                        shouldTouch: true,
+                                        shouldValidate: true,
+                                      }
+                                      checked
+                                        ? form.setValue(
+                                            'paidFor',
+                                            [
+                                              ...field.value,
+                                              {
+                                                participant: id,
+                                                shares:
+                                                  getParticipantWeight(id),
+                                              },
+                                            ] as any,
+                                            options,
+                                          )
+                                        : form.setValue(
+                                            'paidFor',
+                                            field.value?.filter(
+                                              (value) =>
+                                                value.participant !== id,
+                                            ),
+                                            options,
+                                          )
+                                    }}
+                                  />
+                                </FormControl>
+                                <FormLabel className="text-sm font-normal flex-1">
+                                  {name}
+                                  {field.value?.some(
                                     ({ participant }) => participant === id,
-                                  )}
-                                  onCheckedChange={(checked) => {
-                                    const options = {
-                                      shouldDirty: true,
-                                      shouldTouch: true,
-                                      shouldValidate: true,
-                                    }
-                                    checked
-                                      ? form.setValue(
-                                          'paidFor',
-                                          [
-                                            ...field.value,
-                                            {
-                                              participant: id,
-                                              shares: '1', // Use string to ensure consistent schema handling
-                                            },
-                                          ] as any,
-                                          options,
+                                  ) &&
+                                    !form.watch('isReimbursement') && (
+                                      <span className="text-muted-foreground ml-2">
+                                        (
+                                        {formatCurrency(
+                                          groupCurrency,
+                                          calculateShare(id, {
+                                            amount: amountAsMinorUnits(
+                                              Number(form.watch('amount')),
+                                              groupCurrency,
+                                            ), // Convert to cents
+                                            paidFor: field.value.map(
+                                              ({ participant, shares }) => ({
+                                                participant: {
+                                                  id: participant,
+                                                  name: '',
+                                                  groupId: '',
+                                                },
+                                                shares:
+                                                  form.watch('splitMode') ===
+                                                  'BY_PERCENTAGE'
+                                                    ? Number(shares) * 100 // Convert percentage to basis points (e.g., 50% -> 5000)
+                                                    : form.watch(
+                                                        'splitMode',
+                                                      ) === 'BY_AMOUNT'
+                                                    ? amountAsMinorUnits(
+                                                        shares,
+                                                        groupCurrency,
+                                                      )
+                                                    : shares,
+                                                expenseId: '',
+                                                participantId: '',
+                                              }),
+                                            ),
+                                            splitMode: form.watch('splitMode'),
+                                            isReimbursement:
+                                              form.watch('isReimbursement'),
+                                            items: [],
+                                          }),
+                                          locale,
+                                        )}
                                         )
-                                      : form.setValue(
-                                          'paidFor',
-                                          field.value?.filter(
-                                            (value) => value.participant !== id,
-                                          ),
-                                          options,
+                                      </span>
+                                    )}
+                                </FormLabel>
+                              </FormItem>
+                              <div className="flex">
+                                {form.getValues().splitMode === 'BY_AMOUNT' &&
+                                  !!conversionRequired && (
+                                    <FormField
+                                      name={`paidFor[${field.value.findIndex(
+                                        ({ participant }) => participant === id,
+                                      )}].originalAmount`}
+                                      render={() => {
+                                        const sharesLabel = (
+                                          <span
+                                            className={cn('text-sm', {
+                                              'text-muted': !field.value?.some(
+                                                ({ participant }) =>
+                                                  participant === id,
+                                              ),
+                                            })}
+                                          >
+                                            {originalCurrency.symbol}
+                                          </span>
                                         )
-                                  }}
-                                />
-                              </FormControl>
-                              <FormLabel className="text-sm font-normal flex-1">
-                                {name}
-                                {field.value?.some(
-                                  ({ participant }) => participant === id,
-                                ) &&
-                                  !form.watch('isReimbursement') && (
-                                    <span className="text-muted-foreground ml-2">
-                                      (
-                                      {formatCurrency(
-                                        groupCurrency,
-                                        calculateShare(id, {
-                                          amount: amountAsMinorUnits(
-                                            Number(form.watch('amount')),
-                                            groupCurrency,
-                                          ), // Convert to cents
-                                          paidFor: field.value.map(
-                                            ({ participant, shares }) => ({
-                                              participant: {
-                                                id: participant,
-                                                name: '',
-                                                groupId: '',
-                                              },
-                                              shares:
-                                                form.watch('splitMode') ===
-                                                'BY_PERCENTAGE'
-                                                  ? Number(shares) * 100 // Convert percentage to basis points (e.g., 50% -> 5000)
-                                                  : form.watch('splitMode') ===
-                                                    'BY_AMOUNT'
-                                                  ? amountAsMinorUnits(
-                                                      shares,
-                                                      groupCurrency,
+                                        return (
+                                          <div>
+                                            <div className="flex gap-1 items-center">
+                                              {sharesLabel}
+                                              <FormControl>
+                                                <Input
+                                                  key={String(
+                                                    !field.value?.some(
+                                                      ({ participant }) =>
+                                                        participant === id,
+                                                    ),
+                                                  )}
+                                                  className="text-base w-[80px] -my-2"
+                                                  type="text"
+                                                  inputMode="decimal"
+                                                  disabled={
+                                                    !field.value?.some(
+                                                      ({ participant }) =>
+                                                        participant === id,
                                                     )
-                                                  : shares,
-                                              expenseId: '',
-                                              participantId: '',
-                                            }),
-                                          ),
-                                          splitMode: form.watch('splitMode'),
-                                          isReimbursement:
-                                            form.watch('isReimbursement'),
-                                        }),
-                                        locale,
-                                      )}
-                                      )
-                                    </span>
+                                                  }
+                                                  value={
+                                                    field.value.find(
+                                                      ({ participant }) =>
+                                                        participant === id,
+                                                    )?.originalAmount ?? ''
+                                                  }
+                                                  onChange={(event) => {
+                                                    const originalAmount =
+                                                      Number(event.target.value)
+                                                    let convertedAmount = ''
+                                                    if (
+                                                      !Number.isNaN(
+                                                        originalAmount,
+                                                      ) &&
+                                                      exchangeRate.data
+                                                    ) {
+                                                      convertedAmount = (
+                                                        originalAmount *
+                                                        exchangeRate.data
+                                                      ).toFixed(
+                                                        groupCurrency.decimal_digits,
+                                                      )
+                                                    }
+                                                    field.onChange(
+                                                      field.value.map((p) =>
+                                                        p.participant === id
+                                                          ? {
+                                                              participant: id,
+                                                              originalAmount:
+                                                                event.target
+                                                                  .value,
+                                                              shares:
+                                                                enforceCurrencyPattern(
+                                                                  convertedAmount,
+                                                                ),
+                                                            }
+                                                          : p,
+                                                      ),
+                                                    )
+                                                    setManuallyEditedParticipants(
+                                                      (prev) =>
+                                                        new Set(prev).add(id),
+                                                    )
+                                                  }}
+                                                  step={
+                                                    10 **
+                                                    -originalCurrency.decimal_digits
+                                                  }
+                                                />
+                                              </FormControl>
+                                              <ChevronRight className="h-4 w-4 mx-1 opacity-50" />
+                                            </div>
+                                          </div>
+                                        )
+                                      }}
+                                    />
                                   )}
-                              </FormLabel>
-                            </FormItem>
-                            <div className="flex">
-                              {form.getValues().splitMode === 'BY_AMOUNT' &&
-                                !!conversionRequired && (
+                                {form.getValues().splitMode !== 'EVENLY' && (
                                   <FormField
                                     name={`paidFor[${field.value.findIndex(
                                       ({ participant }) => participant === id,
-                                    )}].originalAmount`}
+                                    )}].shares`}
                                     render={() => {
                                       const sharesLabel = (
                                         <span
@@ -965,13 +1188,24 @@ export function ExpenseForm({
                                             ),
                                           })}
                                         >
-                                          {originalCurrency.symbol}
+                                          {match(form.getValues().splitMode)
+                                            .with('BY_SHARES', () => (
+                                              <>{t('shares')}</>
+                                            ))
+                                            .with('BY_PERCENTAGE', () => <>%</>)
+                                            .with('BY_AMOUNT', () => (
+                                              <>{group.currency}</>
+                                            ))
+                                            .otherwise(() => (
+                                              <></>
+                                            ))}
                                         </span>
                                       )
                                       return (
                                         <div>
                                           <div className="flex gap-1 items-center">
-                                            {sharesLabel}
+                                            {form.getValues().splitMode ===
+                                              'BY_AMOUNT' && sharesLabel}
                                             <FormControl>
                                               <Input
                                                 key={String(
@@ -982,7 +1216,6 @@ export function ExpenseForm({
                                                 )}
                                                 className="text-base w-[80px] -my-2"
                                                 type="text"
-                                                inputMode="decimal"
                                                 disabled={
                                                   !field.value?.some(
                                                     ({ participant }) =>
@@ -990,40 +1223,21 @@ export function ExpenseForm({
                                                   )
                                                 }
                                                 value={
-                                                  field.value.find(
+                                                  field.value?.find(
                                                     ({ participant }) =>
                                                       participant === id,
-                                                  )?.originalAmount ?? ''
+                                                  )?.shares
                                                 }
                                                 onChange={(event) => {
-                                                  const originalAmount = Number(
-                                                    event.target.value,
-                                                  )
-                                                  let convertedAmount = ''
-                                                  if (
-                                                    !Number.isNaN(
-                                                      originalAmount,
-                                                    ) &&
-                                                    exchangeRate.data
-                                                  ) {
-                                                    convertedAmount = (
-                                                      originalAmount *
-                                                      exchangeRate.data
-                                                    ).toFixed(
-                                                      groupCurrency.decimal_digits,
-                                                    )
-                                                  }
                                                   field.onChange(
                                                     field.value.map((p) =>
                                                       p.participant === id
                                                         ? {
                                                             participant: id,
-                                                            originalAmount:
-                                                              event.target
-                                                                .value,
                                                             shares:
                                                               enforceCurrencyPattern(
-                                                                convertedAmount,
+                                                                event.target
+                                                                  .value,
                                                               ),
                                                           }
                                                         : p,
@@ -1034,132 +1248,45 @@ export function ExpenseForm({
                                                       new Set(prev).add(id),
                                                   )
                                                 }}
+                                                inputMode={
+                                                  form.getValues().splitMode ===
+                                                  'BY_AMOUNT'
+                                                    ? 'decimal'
+                                                    : 'numeric'
+                                                }
                                                 step={
-                                                  10 **
-                                                  -originalCurrency.decimal_digits
+                                                  form.getValues().splitMode ===
+                                                  'BY_AMOUNT'
+                                                    ? 10 **
+                                                      -groupCurrency.decimal_digits
+                                                    : 1
                                                 }
                                               />
                                             </FormControl>
-                                            <ChevronRight className="h-4 w-4 mx-1 opacity-50" />
+                                            {[
+                                              'BY_SHARES',
+                                              'BY_PERCENTAGE',
+                                            ].includes(
+                                              form.getValues().splitMode,
+                                            ) && sharesLabel}
                                           </div>
+                                          <FormMessage className="float-right" />
                                         </div>
                                       )
                                     }}
                                   />
                                 )}
-                              {form.getValues().splitMode !== 'EVENLY' && (
-                                <FormField
-                                  name={`paidFor[${field.value.findIndex(
-                                    ({ participant }) => participant === id,
-                                  )}].shares`}
-                                  render={() => {
-                                    const sharesLabel = (
-                                      <span
-                                        className={cn('text-sm', {
-                                          'text-muted': !field.value?.some(
-                                            ({ participant }) =>
-                                              participant === id,
-                                          ),
-                                        })}
-                                      >
-                                        {match(form.getValues().splitMode)
-                                          .with('BY_SHARES', () => (
-                                            <>{t('shares')}</>
-                                          ))
-                                          .with('BY_PERCENTAGE', () => <>%</>)
-                                          .with('BY_AMOUNT', () => (
-                                            <>{group.currency}</>
-                                          ))
-                                          .otherwise(() => (
-                                            <></>
-                                          ))}
-                                      </span>
-                                    )
-                                    return (
-                                      <div>
-                                        <div className="flex gap-1 items-center">
-                                          {form.getValues().splitMode ===
-                                            'BY_AMOUNT' && sharesLabel}
-                                          <FormControl>
-                                            <Input
-                                              key={String(
-                                                !field.value?.some(
-                                                  ({ participant }) =>
-                                                    participant === id,
-                                                ),
-                                              )}
-                                              className="text-base w-[80px] -my-2"
-                                              type="text"
-                                              disabled={
-                                                !field.value?.some(
-                                                  ({ participant }) =>
-                                                    participant === id,
-                                                )
-                                              }
-                                              value={
-                                                field.value?.find(
-                                                  ({ participant }) =>
-                                                    participant === id,
-                                                )?.shares
-                                              }
-                                              onChange={(event) => {
-                                                field.onChange(
-                                                  field.value.map((p) =>
-                                                    p.participant === id
-                                                      ? {
-                                                          participant: id,
-                                                          shares:
-                                                            enforceCurrencyPattern(
-                                                              event.target
-                                                                .value,
-                                                            ),
-                                                        }
-                                                      : p,
-                                                  ),
-                                                )
-                                                setManuallyEditedParticipants(
-                                                  (prev) =>
-                                                    new Set(prev).add(id),
-                                                )
-                                              }}
-                                              inputMode={
-                                                form.getValues().splitMode ===
-                                                'BY_AMOUNT'
-                                                  ? 'decimal'
-                                                  : 'numeric'
-                                              }
-                                              step={
-                                                form.getValues().splitMode ===
-                                                'BY_AMOUNT'
-                                                  ? 10 **
-                                                    -groupCurrency.decimal_digits
-                                                  : 1
-                                              }
-                                            />
-                                          </FormControl>
-                                          {[
-                                            'BY_SHARES',
-                                            'BY_PERCENTAGE',
-                                          ].includes(
-                                            form.getValues().splitMode,
-                                          ) && sharesLabel}
-                                        </div>
-                                        <FormMessage className="float-right" />
-                                      </div>
-                                    )
-                                  }}
-                                />
-                              )}
+                              </div>
                             </div>
-                          </div>
-                        )
-                      }}
-                    />
-                  ))}
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+                          )
+                        }}
+                      />
+                    ))}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             <Collapsible
               className="mt-5"
@@ -1205,6 +1332,9 @@ export function ExpenseForm({
                               <SelectItem value="BY_AMOUNT">
                                 {t('SplitModeField.byAmount')}
                               </SelectItem>
+                              <SelectItem value="BY_ITEMS">
+                                {t('SplitModeField.byItems')}
+                              </SelectItem>
                             </SelectContent>
                           </Select>
                         </FormControl>
@@ -1257,6 +1387,7 @@ export function ExpenseForm({
                   <ExpenseDocumentsInput
                     documents={field.value}
                     updateDocuments={field.onChange}
+                    storageDriver={runtimeFeatureFlags.storageDriver}
                   />
                 )}
               />
@@ -1287,3 +1418,390 @@ function formatDate(date?: Date) {
   if (!date || isNaN(date as any)) date = new Date()
   return date.toISOString().substring(0, 10)
 }
+
+function PayersCard({
+  form,
+  group,
+  sExpense,
+}: {
+  form: UseFormReturn<ExpenseFormValues>
+  group: NonNullable<AppRouterOutput['groups']['get']['group']>
+  sExpense: 'Expense' | 'Income'
+}) {
+  const t = useTranslations('ExpenseForm')
+  const payersSplitMode = form.watch('payersSplitMode')
+  const options = {
+    shouldDirty: true,
+    shouldTouch: true,
+    shouldValidate: true,
+  }
+
+  const setPayers = (payers: ExpenseFormValues['payers']) => {
+    form.setValue('payers', payers, options)
+    // The main payer must remain one of the payers
+    if (
+      payers.length > 0 &&
+      !payers.some(
+        ({ participant }) => participant === form.getValues('paidBy'),
+      )
+    ) {
+      form.setValue('paidBy', payers[0].participant, options)
+    }
+  }
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle>{t(`${sExpense}.payers.title`)}</CardTitle>
+        <CardDescription>{t(`${sExpense}.payers.description`)}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FormField
+          control={form.control}
+          name="payers"
+          render={({ field }) => (
+            <FormItem className="space-y-0">
+              {group.participants.map(({ id, name }) => {
+                const payer = field.value.find(
+                  ({ participant }) => participant === id,
+                )
+                const sharesLabel = (
+                  <span className={cn('text-sm', { 'text-muted': !payer })}>
+                    {payersSplitMode === 'BY_AMOUNT'
+                      ? group.currency
+                      : t('shares')}
+                  </span>
+                )
+                return (
+                  <div
+                    key={id}
+                    className="flex flex-wrap gap-y-4 items-center border-t last-of-type:border-b last-of-type:!mb-4 -mx-6 px-6 py-3"
+                  >
+                    <FormItem className="flex-1 flex flex-row items-start space-x-3 space-y-0">
+                      <FormControl>
+                        <Checkbox
+                          checked={!!payer}
+                          onCheckedChange={(checked) =>
+                            setPayers(
+                              checked
+                                ? [
+                                    ...field.value,
+                                    {
+                                      participant: id,
+                                      shares: '1' as any, // Use string to ensure consistent schema handling
+                                    },
+                                  ]
+                                : field.value.filter(
+                                    ({ participant }) => participant !== id,
+                                  ),
+                            )
+                          }
+                        />
+                      </FormControl>
+                      <FormLabel className="text-sm font-normal flex-1">
+                        {name}
+                      </FormLabel>
+                    </FormItem>
+                    {payersSplitMode !== 'EVENLY' && (
+                      <div className="flex gap-1 items-center">
+                        {payersSplitMode === 'BY_AMOUNT' && sharesLabel}
+                        <Input
+                          key={String(!payer)}
+                          className="text-base w-[80px] -my-2"
+                          type="text"
+                          disabled={!payer}
+                          value={payer?.shares ?? ''}
+                          onChange={(event) =>
+                            field.onChange(
+                              field.value.map((p) =>
+                                p.participant === id
+                                  ? {
+                                      participant: id,
+                                      shares: enforceCurrencyPattern(
+                                        event.target.value,
+                                      ),
+                                    }
+                                  : p,
+                              ),
+                            )
+                          }
+                          inputMode={
+                            payersSplitMode === 'BY_AMOUNT'
+                              ? 'decimal'
+                              : 'numeric'
+                          }
+                        />
+                        {payersSplitMode === 'BY_SHARES' && sharesLabel}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="payersSplitMode"
+          render={({ field }) => (
+            <FormItem className="sm:w-1/2">
+              <FormLabel>{t('SplitModeField.label')}</FormLabel>
+              <FormControl>
+                <Select
+                  onValueChange={(value) => {
+                    form.setValue('payersSplitMode', value as any, options)
+                  }}
+                  defaultValue={field.value}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="EVENLY">
+                      {t('SplitModeField.evenly')}
+                    </SelectItem>
+                    <SelectItem value="BY_SHARES">
+                      {t('SplitModeField.byShares')}
+                    </SelectItem>
+                    <SelectItem value="BY_AMOUNT">
+                      {t('SplitModeField.byAmount')}
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormControl>
+              <FormDescription>
+                {t(`${sExpense}.payers.splitModeDescription`)}
+              </FormDescription>
+            </FormItem>
+          )}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+function ItemsField({
+  form,
+  group,
+  groupCurrency,
+}: {
+  form: UseFormReturn<ExpenseFormValues>
+  group: NonNullable<AppRouterOutput['groups']['get']['group']>
+  groupCurrency: Currency
+}) {
+  const t = useTranslations('ExpenseForm.ItemsField')
+  const locale = useLocale()
+  const amount = amountAsMinorUnits(Number(form.watch('amount')), groupCurrency)
+
+  return (
+    <FormField
+      control={form.control}
+      name="items"
+      render={({ field }) => {
+        const items = field.value
+        const setItems = (newItems: ExpenseFormValues['items']) => {
+          field.onChange(newItems)
+          // The expense is paid for everyone consuming at least one item
+          const participants = Array.from(
+            new Set(newItems.flatMap((item) => item.participants)),
+          )
+          if (participants.length > 0) {
+            form.setValue(
+              'paidFor',
+              participants.map((participant) => ({
+                participant,
+                shares: '1' as any, // Use string to ensure consistent schema handling
+              })),
+              { shouldValidate: true },
+            )
+          }
+        }
+        const updateItem = (
+          index: number,
+          item: Partial<ExpenseFormValues['items'][number]>,
+        ) =>
+          setItems(
+            items.map((i, idx) => (idx === index ? { ...i, ...item } : i)),
+          )
+
+        const itemsInMinorUnits = items.map((item) => ({
+          amount: amountAsMinorUnits(Number(item.amount) || 0, groupCurrency),
+          participants: item.participants.map((participantId) => ({
+            participantId,
+          })),
+        }))
+        const itemsTotal = itemsInMinorUnits.reduce(
+          (sum, item) => sum + item.amount,
+          0,
+        )
+
+        return (
+          <FormItem>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('label')}</TableHead>
+                  <TableHead>{t('amount')}</TableHead>
+                  <TableHead>{t('participants')}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="px-1 align-top">
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.label`}
+                        render={() => (
+                          <FormItem>
+                            <FormControl>
+                              <Input
+                                className="text-base min-w-[120px]"
+                                placeholder={t('placeholder')}
+                                value={item.label}
+                                onChange={(event) =>
+                                  updateItem(index, {
+                                    label: event.target.value,
+                                  })
+                                }
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="px-1 align-top">
+                      <div className="flex gap-1 items-baseline">
+                        <span>{group.currency}</span>
+                        <Input
+                          className="text-base w-[80px]"
+                          type="text"
+                          inputMode="decimal"
+                          placeholder="0.00"
+                          value={item.amount}
+                          onChange={(event) =>
+                            updateItem(index, {
+                              amount: enforceCurrencyPattern(
+                                event.target.value,
+                              ) as any, // Keep as string for consistent schema handling
+                            })
+                          }
+                        />
+                      </div>
+                    </TableCell>
+                    <TableCell className="px-1 align-top">
+                      <FormField
+                        control={form.control}
+                        name={`items.${index}.participants`}
+                        render={() => (
+                          <FormItem>
+                            <div className="flex flex-wrap gap-1">
+                              {group.participants.map(({ id, name }) => {
+                                const selected = item.participants.includes(id)
+                                return (
+                                  <Button
+                                    key={id}
+                                    type="button"
+                                    size="sm"
+                                    variant={selected ? 'default' : 'outline'}
+                                    className="h-7 px-2"
+                                    onClick={() =>
+                                      updateItem(index, {
+                                        participants: selected
+                                          ? item.participants.filter(
+                                              (participant) =>
+                                                participant !== id,
+                                            )
+                                          : [...item.participants, id],
+                                      })
+                                    }
+                                  >
+                                    {name}
+                                  </Button>
+                                )
+                              })}
+                            </div>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </TableCell>
+                    <TableCell className="px-1 align-top">
+                      <Button
+                        type="button"
+                        size="icon"
+                        variant="ghost"
+                        title={t('removeItem')}
+                        onClick={() =>
+                          setItems(items.filter((_, idx) => idx !== index))
+                        }
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                setItems([
+                  ...items,
+                  {
+                    label: '',
+                    amount: '' as any, // Keep as string for consistent schema handling
+                    participants: group.participants.map(({ id }) => id),
+                  },
+                ])
+              }
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {t('addItem')}
+            </Button>
+            <FormMessage />
+            {items.length > 0 && (
+              <div className="text-sm text-muted-foreground space-y-1 pt-2">
+                <div>
+                  {t('subtotal')}{' '}
+                  {formatCurrency(groupCurrency, itemsTotal, locale)}
+                </div>
+                <div>
+                  {t('taxAndTip')}{' '}
+                  {formatCurrency(groupCurrency, amount - itemsTotal, locale)}
+                </div>
+                {group.participants
+                  .filter(({ id }) =>
+                    items.some((item) => item.participants.includes(id)),
+                  )
+                  .map(({ id, name }) => (
+                    <div key={id}>
+                      {name}:{' '}
+                      <strong>
+                        {formatCurrency(
+                          groupCurrency,
+                          calculateShare(id, {
+                            amount,
+                            paidFor: [],
+                            splitMode: 'BY_ITEMS',
+                            isReimbursement: false,
+                            items: itemsInMinorUnits,
+                          }),
+                          locale,
+                        )}
+                      </strong>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </FormItem>
+        )
+      }}
+    />
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Currency } from '@/lib/currency'
+import {
+  countExpenseFilters,
+  getExpenseFiltersSearchParams,
+  parseExpenseFilters,
+} from '@/lib/expense-filters'
+import { ExpenseFilters } from '@/lib/schemas'
+import { trpc } from '@/trpc/client'
+import { ListFilter } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { ReactNode, useState } from 'react'
+import { useCurrentGroup } from '../current-group-context'
+
+const ALL = 'all'
+
+/** Values of the filter fields, as written in the URL. */
+type Draft = Record<string, string>
+
+function getDraft(filters: ExpenseFilters, currency: Currency): Draft {
+  return Object.fromEntries(
+    getExpenseFiltersSearchParams(filters, currency).entries(),
+  )
+}
+
+function FilterField({
+  label,
+  htmlFor,
+  children,
+}: {
+  label: string
+  htmlFor?: string
+  children: ReactNode
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <Label htmlFor={htmlFor}>{label}</Label>
+      {children}
+    </div>
+  )
+}
+
+function FilterSelect({
+  value,
+  onValueChange,
+  options,
+}: {
+  value: string | undefined
+  onValueChange: (value: string) => void
+  options: { value: string; label: string }[]
+}) {
+  const t = useTranslations('Expenses.Filters')
+  return (
+    <Select value={value ?? ALL} onValueChange={onValueChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>{t('all')}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ExpenseListFilters({
+  filters,
+  currency,
+  onFiltersChange,
+}: {
+  filters: ExpenseFilters
+  currency: Currency
+  onFiltersChange: (filters: ExpenseFilters) => void
+}) {
+  const t = useTranslations('Expenses.Filters')
+  const tCategories = useTranslations('Categories')
+  const { group } = useCurrentGroup()
+  const { data: categoriesData } = trpc.categories.list.useQuery()
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState<Draft>({})
+
+  const count = countExpenseFilters(filters)
+  const participants = (group?.participants ?? []).map((participant) => ({
+    value: participant.id,
+    label: participant.name,
+  }))
+
+  const setValue = (name: string, value: string) =>
+    setDraft((draft) => {
+      const next = { ...draft }
+      if (value && value !== ALL) next[name] = value
+      else delete next[name]
+      return next
+    })
+
+  const apply = (draft: Draft) => {
+    onFiltersChange(parseExpenseFilters(new URLSearchParams(draft), currency))
+    setOpen(false)
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(open) => {
+        if (open) setDraft(getDraft(filters, currency))
+        setOpen(open)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="shrink-0" title={t('title')}>
+          <ListFilter className="w-4 h-4" />
+          {count > 0 && (
+            <Badge className="ml-2 px-1.5" variant="secondary">
+              {count}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 max-h-[70vh] overflow-y-auto">
+        <form
+          className="flex flex-col gap-3"
+          onSubmit={(event) => {
+            event.preventDefault()
+            apply(draft)
+          }}
+        >
+          <div className="grid grid-cols-2 gap-2">
+            <FilterField label={t('from')} htmlFor="filter-from">
+              <Input
+                id="filter-from"
+                type="date"
+                value={draft.from ?? ''}
+                onChange={(event) => setValue('from', event.target.value)}
+              />
+            </FilterField>
+            <FilterField label={t('to')} htmlFor="filter-to">
+              <Input
+                id="filter-to"
+                type="date"
+                value={draft.to ?? ''}
+                onChange={(event) => setValue('to', event.target.value)}
+              />
+            </FilterField>
+          </div>
+          <FilterField label={t('category')}>
+            <FilterSelect
+              value={draft.category}
+              onValueChange={(value) => setValue('category', value)}
+              options={(categoriesData?.categories ?? []).map((category) => ({
+                value: String(category.id),
+                label: tCategories(`${category.grouping}.${category.name}`),
+              }))}
+            />
+          </FilterField>
+          <FilterField label={t('paidBy')}>
+            <FilterSelect
+              value={draft.paidBy}
+              onValueChange={(value) => setValue('paidBy', value)}
+              options={participants}
+            />
+          </FilterField>
+          <FilterField label={t('participant')}>
+            <FilterSelect
+              value={draft.participant}
+              onValueChange={(value) => setValue('participant', value)}
+              options={participants}
+            />
+          </FilterField>
+          <div className="grid grid-cols-2 gap-2">
+            <FilterField label={t('minAmount')} htmlFor="filter-min-amount">
+              <Input
+                id="filter-min-amount"
+                type="text"
+                inputMode="decimal"
+                placeholder={group?.currency}
+                value={draft.minAmount ?? ''}
+                onChange={(event) => setValue('minAmount', event.target.value)}
+              />
+            </FilterField>
+            <FilterField label={t('maxAmount')} htmlFor="filter-max-amount">
+              <Input
+                id="filter-max-amount"
+                type="text"
+                inputMode="decimal"
+                placeholder={group?.currency}
+                value={draft.maxAmount ?? ''}
+                onChange={(event) => setValue('maxAmount', event.target.value)}
+              />
+            </FilterField>
+          </div>
+          <FilterField label={t('reimbursement')}>
+            <FilterSelect
+              value={draft.reimbursement}
+              onValueChange={(value) => setValue('reimbursement', value)}
+              options={[
+                { value: 'true', label: t('onlyReimbursements') },
+                { value: 'false', label: t('noReimbursements') },
+              ]}
+            />
+          </FilterField>
+          <FilterField label={t('documents')}>
+            <FilterSelect
+              value={draft.documents}
+              onValueChange={(value) => setValue('documents', value)}
+              options={[
+                { value: 'true', label: t('withDocuments') },
+                { value: 'false', label: t('withoutDocuments') },
+              ]}
+            />
+          </FilterField>
+          <FilterField label={t('recurring')}>
+            <FilterSelect
+              value={draft.recurring}
+              onValueChange={(value) => setValue('recurring', value)}
+              options={[
+                { value: 'true', label: t('onlyRecurring') },
+                { value: 'false', label: t('noRecurring') },
+              ]}
+            />
+          </FilterField>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="ghost" onClick={() => apply({})}>
+              {t('clear')}
+            </Button>
+            <Button type="submit">{t('apply')}</Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  )
+}
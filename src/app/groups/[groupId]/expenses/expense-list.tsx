@@ -1,14 +1,25 @@
 'use client'
+import { ExpenseBulkActions } from '@/app/groups/[groupId]/expenses/expense-bulk-actions'
 import { ExpenseCard } from '@/app/groups/[groupId]/expenses/expense-card'
 import { getGroupExpensesAction } from '@/app/groups/[groupId]/expenses/expense-list-fetch-action'
+import { ExpenseListFilters } from '@/app/groups/[groupId]/expenses/expense-list-filters'
 import { Button } from '@/components/ui/button'
 import { SearchBar } from '@/components/ui/search-bar'
 import { Skeleton } from '@/components/ui/skeleton'
+import {
+  countExpenseFilters,
+  getExpenseFiltersSearchParams,
+  getSearchTerms,
+  parseExpenseFilters,
+} from '@/lib/expense-filters'
+import { ExpenseFilters } from '@/lib/schemas'
 import { getCurrencyFromGroup } from '@/lib/utils'
 import { trpc } from '@/trpc/client'
 import dayjs, { type Dayjs } from 'dayjs'
+import { ListChecks } from 'lucide-react'
 import { useTranslations } from 'next-intl'
 import Link from 'next/link'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
 import { forwardRef, useEffect, useMemo, useState } from 'react'
 import { useInView } from 'react-intersection-observer'
 import { useDebounce } from 'use-debounce'
@@ -62,8 +73,23 @@ export function ExpenseList() {
   const { groupId, group } = useCurrentGroup()
   const [searchText, setSearchText] = useState('')
   const [debouncedSearchText] = useDebounce(searchText, 300)
+  const searchParams = useSearchParams()
+  const pathname = usePathname()
+  const router = useRouter()
+  const t = useTranslations('Expenses')
+  // IDs of the selected expenses, null when not in selection mode
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null)
 
   const participants = group?.participants
+  const currency = group ? getCurrencyFromGroup(group) : null
+  // Filters are kept in the URL so that a filtered list can be shared
+  const filters = useMemo(
+    () =>
+      currency
+        ? parseExpenseFilters(new URLSearchParams(searchParams), currency)
+        : {},
+    [currency, searchParams],
+  )
 
   useEffect(() => {
     if (!participants) return
@@ -88,10 +114,37 @@ export function ExpenseList() {
 
   return (
     <>
-      <SearchBar onValueChange={(value) => setSearchText(value)} />
+      <SearchBar onValueChange={(value) => setSearchText(value)}>
+        {currency && (
+          <ExpenseListFilters
+            filters={filters}
+            currency={currency}
+            onFiltersChange={(filters) => {
+              const query = getExpenseFiltersSearchParams(
+                filters,
+                currency,
+              ).toString()
+              router.replace(query ? `${pathname}?${query}` : pathname, {
+                scroll: false,
+              })
+            }}
+          />
+        )}
+        <Button
+          variant={selectedIds ? 'secondary' : 'outline'}
+          className="shrink-0"
+          title={t('BulkActions.select')}
+          onClick={() => setSelectedIds(selectedIds ? null : [])}
+        >
+          <ListChecks className="w-4 h-4" />
+        </Button>
+      </SearchBar>
       <ExpenseListForSearch
         groupId={groupId}
         searchText={debouncedSearchText}
+        filters={filters}
+        selectedIds={selectedIds}
+        onSelectionChange={setSelectedIds}
       />
     </>
   )
@@ -100,9 +153,15 @@ export function ExpenseList() {
 const ExpenseListForSearch = ({
   groupId,
   searchText,
+  filters,
+  selectedIds,
+  onSelectionChange,
 }: {
   groupId: string
   searchText: string
+  filters: ExpenseFilters
+  selectedIds: string[] | null
+  onSelectionChange: (selectedIds: string[] | null) => void
 }) => {
   const utils = trpc.useUtils()
   const { group } = useCurrentGroup()
@@ -121,7 +180,7 @@ const ExpenseListForSearch = ({
     isLoading: expensesAreLoading,
     fetchNextPage,
   } = trpc.groups.expenses.list.useInfiniteQuery(
-    { groupId, limit: PAGE_SIZE, filter: searchText },
+    { groupId, limit: PAGE_SIZE, filter: searchText, filters },
     { getNextPageParam: ({ nextCursor }) => nextCursor },
   )
   const expenses = data?.pages.flatMap((page) => page.expenses)
@@ -133,6 +192,7 @@ const ExpenseListForSearch = ({
     if (inView && hasMore && !isLoading) fetchNextPage()
   }, [fetchNextPage, hasMore, inView, isLoading])
 
+  const searchTerms = useMemo(() => getSearchTerms(searchText), [searchText])
   const groupedExpensesByDate = useMemo(
     () => (expenses ? getGroupedExpensesByDate(expenses) : {}),
     [expenses],
@@ -140,6 +200,21 @@ const ExpenseListForSearch = ({
 
   if (isLoading) return <ExpensesLoading />
 
+  const bulkActions = selectedIds && (
+    <ExpenseBulkActions
+      selectedIds={selectedIds}
+      allIds={expenses.map((expense) => expense.id)}
+      onSelectionChange={onSelectionChange}
+      onDone={async () => {
+        onSelectionChange(null)
+        await utils.groups.invalidate()
+      }}
+    />
+  )
+
+  if (expenses.length === 0 && (searchText || countExpenseFilters(filters)))
+    return <p className="px-6 text-sm py-6">{t('noMatchingExpenses')}</p>
+
   if (expenses.length === 0)
     return (
       <p className="px-6 text-sm py-6">
@@ -154,6 +229,7 @@ const ExpenseListForSearch = ({
 
   return (
     <>
+      {bulkActions}
       {Object.values(EXPENSE_GROUPS).map((expenseGroup: string) => {
         let groupExpenses = groupedExpensesByDate[expenseGroup]
         if (!groupExpenses || groupExpenses.length === 0) return null
@@ -174,6 +250,20 @@ const ExpenseListForSearch = ({
                 currency={getCurrencyFromGroup(group)}
                 groupId={groupId}
                 participantCount={group.participants.length}
+                searchTerms={searchTerms}
+                selection={
+                  selectedIds
+                    ? {
+                        selected: selectedIds.includes(expense.id),
+                        onSelectedChange: () =>
+                          onSelectionChange(
+                            selectedIds.includes(expense.id)
+                              ? selectedIds.filter((id) => id !== expense.id)
+                              : [...selectedIds, expense.id],
+                          ),
+                      }
+                    : undefined
+                }
               />
             ))}
           </div>
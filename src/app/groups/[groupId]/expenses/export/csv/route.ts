@@ -1,7 +1,12 @@
-import { getCurrency } from '@/lib/currency'
+import { Currency, getCurrency } from '@/lib/currency'
+import {
+  calculateItemSubtotals,
+  calculatePaidAmounts,
+  divideAmount,
+} from '@/lib/totals'
 import { formatAmountAsDecimal, getCurrencyFromGroup } from '@/lib/utils'
 import { Parser } from '@json2csv/plainjs'
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, SplitMode } from '@prisma/client'
 import contentDisposition from 'content-disposition'
 import { NextResponse } from 'next/server'
 
@@ -10,6 +15,7 @@ const splitModeLabel = {
   BY_SHARES: 'Unevenly – By shares',
   BY_PERCENTAGE: 'Unevenly – By percentage',
   BY_AMOUNT: 'Unevenly – By amount',
+  BY_ITEMS: 'Unevenly – By items',
 }
 
 function formatDate(isoDateString: Date): string {
@@ -20,6 +26,31 @@ function formatDate(isoDateString: Date): string {
   return `${year}-${month}-${day}` // YYYY-MM-DD format
 }
 
+function formatPaidBy(
+  expense: {
+    amount: number
+    paidById: string
+    payers: { participantId: string; shares: number }[]
+    payersSplitMode: SplitMode
+  },
+  participants: { id: string; name: string }[],
+  currency: Currency,
+): string {
+  const participantName = (participantId: string) =>
+    participants.find(({ id }) => id === participantId)?.name ?? ''
+  if (expense.payers.length === 0) return participantName(expense.paidById)
+
+  return calculatePaidAmounts(expense)
+    .map(
+      ({ participantId, amount }) =>
+        `${participantName(participantId)} (${formatAmountAsDecimal(
+          amount,
+          currency,
+        )})`,
+    )
+    .join(', ')
+}
+
 const prisma = new PrismaClient()
 
 export async function GET(
@@ -35,6 +66,7 @@ export async function GET(
       currency: true,
       currencyCode: true,
       expenses: {
+        where: { deletedAt: null },
         select: {
           expenseDate: true,
           title: true,
@@ -44,9 +76,17 @@ export async function GET(
           originalCurrency: true,
           conversionRate: true,
           paidById: true,
+          payers: { select: { participantId: true, shares: true } },
+          payersSplitMode: true,
           paidFor: { select: { participantId: true, shares: true } },
           isReimbursement: true,
           splitMode: true,
+          items: {
+            select: {
+              amount: true,
+              participants: { select: { participantId: true } },
+            },
+          },
         },
       },
       participants: { select: { id: true, name: true } },
@@ -70,7 +110,8 @@ export async function GET(
   - Conversion rate: The rate used to convert the amount.
   - Is Reimbursement: Whether the expense is a reimbursement or not.
   - Split mode: The method used to split the expense (e.g., Evenly, By shares, By percentage, By amount).
-  - UserA, UserB: User-specific data or balances (e.g., amount owed or contributed by each user).
+  - Paid by: The participants who paid the expense, with the amount each of them paid.
+  - UserA, UserB: What each user paid minus their share of the expense, as in the balances.
 
   Example Table:
   +------------+------------------+----------+----------+----------+---------------+-------------------+-----------------+------------------+----------------------+--------+-----------+
@@ -78,7 +119,7 @@ export async function GET(
   +------------+------------------+----------+----------+----------+---------------+-------------------+-----------------+------------------+----------------------+--------+-----------+
   | 2025-01-06 | Dinner with team | Food     | INR      | 5000     |               |                   |                 | No               | Evenly               | 2500   | -2500     |
   +------------+------------------+----------+----------+----------+---------------+-------------------+-----------------+------------------+----------------------+--------+-----------+
-  | 2025-02-07 | Plane tickets    | Travel   | INR      | 97264.09 | 1000          | EUR               | 97.2641         | No               | Unevenly - By amount | -80000 | -17264.09 |
+  | 2025-02-07 | Plane tickets    | Travel   | INR      | 97264.09 | 1000          | EUR               | 97.2641         | No               | Unevenly - By amount | -80000 | 80000     |
   +------------+------------------+----------+----------+----------+---------------+-------------------+-----------------+------------------+----------------------+--------+-----------+
 
   */
@@ -94,6 +135,7 @@ export async function GET(
     { label: 'Conversion rate', value: 'conversionRate' },
     { label: 'Is Reimbursement', value: 'isReimbursement' },
     { label: 'Split mode', value: 'splitMode' },
+    { label: 'Paid by', value: 'paidBy' },
     ...group.participants.map((participant) => ({
       label: participant.name,
       value: participant.name,
@@ -102,50 +144,55 @@ export async function GET(
 
   const currency = getCurrencyFromGroup(group)
 
-  const expenses = group.expenses.map((expense) => ({
-    date: formatDate(expense.expenseDate),
-    title: expense.title,
-    categoryName: expense.category?.name || '',
-    currency: group.currencyCode ?? group.currency,
-    amount: formatAmountAsDecimal(expense.amount, currency),
-    originalAmount: expense.originalAmount
-      ? formatAmountAsDecimal(
-          expense.originalAmount,
-          getCurrency(expense.originalCurrency),
-        )
-      : null,
-    originalCurrency: expense.originalCurrency,
-    conversionRate: expense.conversionRate
-      ? expense.conversionRate.toString()
-      : null,
-    isReimbursement: expense.isReimbursement ? 'Yes' : 'No',
-    splitMode: splitModeLabel[expense.splitMode],
-    ...Object.fromEntries(
-      group.participants.map((participant) => {
-        const { totalShares, participantShare } = expense.paidFor.reduce(
-          (acc, { participantId, shares }) => {
-            acc.totalShares += shares
-            if (participantId === participant.id) {
-              acc.participantShare = shares
-            }
-            return acc
-          },
-          { totalShares: 0, participantShare: 0 },
-        )
-
-        const isPaidByParticipant = expense.paidById === participant.id
-        const participantAmountShare = +formatAmountAsDecimal(
-          (expense.amount / totalShares) * participantShare,
-          currency,
-        )
-
-        return [
+  const expenses = group.expenses.map((expense) => {
+    const paidAmounts = calculatePaidAmounts(expense)
+    // When splitting by items, the shares are what each participant consumed
+    const paidForAmounts = divideAmount(
+      expense.amount,
+      expense.splitMode,
+      expense.splitMode === 'BY_ITEMS'
+        ? calculateItemSubtotals(expense.items)
+        : expense.paidFor,
+    )
+    const getAmount = (
+      amounts: { participantId: string; amount: number }[],
+      participantId: string,
+    ) =>
+      amounts.find((amount) => amount.participantId === participantId)
+        ?.amount ?? 0
+
+    return {
+      date: formatDate(expense.expenseDate),
+      title: expense.title,
+      categoryName: expense.category?.name || '',
+      currency: group.currencyCode ?? group.currency,
+      amount: formatAmountAsDecimal(expense.amount, currency),
+      originalAmount: expense.originalAmount
+        ? formatAmountAsDecimal(
+            expense.originalAmount,
+            getCurrency(expense.originalCurrency),
+          )
+        : null,
+      originalCurrency: expense.originalCurrency,
+      conversionRate: expense.conversionRate
+        ? expense.conversionRate.toString()
+        : null,
+      isReimbursement: expense.isReimbursement ? 'Yes' : 'No',
+      splitMode: splitModeLabel[expense.splitMode],
+      paidBy: formatPaidBy(expense, group.participants, currency),
+      // What each participant paid minus their share, as in the balances
+      ...Object.fromEntries(
+        group.participants.map((participant) => [
           participant.name,
-          participantAmountShare * (isPaidByParticipant ? 1 : -1),
-        ]
-      }),
-    ),
-  }))
+          +formatAmountAsDecimal(
+            getAmount(paidAmounts, participant.id) -
+              getAmount(paidForAmounts, participant.id),
+            currency,
+          ),
+        ]),
+      ),
+    }
+  })
 
   const json2csvParser = new Parser({ fields })
   const csv = json2csvParser.parse(expenses)
@@ -15,6 +15,7 @@ export async function GET(
       currency: true,
       currencyCode: true,
       expenses: {
+        where: { deletedAt: null },
         select: {
           createdAt: true,
           expenseDate: true,
@@ -25,9 +26,19 @@ export async function GET(
           originalCurrency: true,
           conversionRate: true,
           paidById: true,
+          payers: { select: { participantId: true, shares: true } },
+          payersSplitMode: true,
           paidFor: { select: { participantId: true, shares: true } },
           isReimbursement: true,
           splitMode: true,
+          items: {
+            select: {
+              label: true,
+              amount: true,
+              participants: { select: { participantId: true } },
+            },
+            orderBy: { position: 'asc' },
+          },
           recurrenceRule: true,
         },
         orderBy: [{ expenseDate: 'asc' }, { createdAt: 'asc' }],
@@ -6,6 +6,7 @@ import { ImportCsvButton } from '@/app/groups/[groupId]/expenses/import-csv-butt
 import { ExpenseList } from '@/app/groups/[groupId]/expenses/expense-list'
 import ExportButton from '@/app/groups/[groupId]/export-button'
 import { Button } from '@/components/ui/button'
+import { RuntimeFeatureFlags } from '@/lib/featureFlags'
 import {
   Card,
   CardContent,
@@ -13,7 +14,7 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
-import { Plus } from 'lucide-react'
+import { Plus, Trash2 } from 'lucide-react'
 import { Metadata } from 'next'
 import { useTranslations } from 'next-intl'
 import Link from 'next/link'
@@ -27,8 +28,10 @@ export const metadata: Metadata = {
 
 export default function GroupExpensesPageClient({
   enableReceiptExtract,
+  storageDriver,
 }: {
   enableReceiptExtract: boolean
+  storageDriver: RuntimeFeatureFlags['storageDriver']
 }) {
   const t = useTranslations('Expenses')
   const { groupId } = useCurrentGroup()
@@ -43,8 +46,18 @@ export default function GroupExpensesPageClient({
           </CardHeader>
           <CardHeader className="p-4 sm:p-6 flex flex-row space-y-0 gap-2">
             <ExportButton groupId={groupId} />
-            {enableReceiptExtract && <CreateFromReceiptButton />}
+            {enableReceiptExtract && (
+              <CreateFromReceiptButton storageDriver={storageDriver} />
+            )}
             <ImportCsvButton />
+            <Button variant="secondary" size="icon" asChild>
+              <Link
+                href={`/groups/${groupId}/expenses/trash`}
+                title={t('trash')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Link>
+            </Button>
             <Button asChild size="icon">
               <Link
                 href={`/groups/${groupId}/expenses/create`}
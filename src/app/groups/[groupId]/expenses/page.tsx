@@ -12,6 +12,7 @@ export default async function GroupExpensesPage() {
   return (
     <GroupExpensesPageClient
       enableReceiptExtract={env.NEXT_PUBLIC_ENABLE_RECEIPT_EXTRACT}
+      storageDriver={env.STORAGE_DRIVER}
     />
   )
 }
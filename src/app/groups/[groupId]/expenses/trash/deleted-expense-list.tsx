@@ -0,0 +1,103 @@
+'use client'
+import { CategoryIcon } from '@/app/groups/[groupId]/expenses/category-icon'
+import { AsyncButton } from '@/components/async-button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useActiveUser } from '@/lib/hooks'
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  getCurrencyFromGroup,
+} from '@/lib/utils'
+import { trpc } from '@/trpc/client'
+import { Undo2 } from 'lucide-react'
+import { useLocale, useTranslations } from 'next-intl'
+import { useCurrentGroup } from '../../current-group-context'
+
+function DeletedExpensesLoading() {
+  return (
+    <div className="flex flex-col gap-4">
+      {Array(3)
+        .fill(undefined)
+        .map((_, index) => (
+          <div key={index} className="flex flex-col gap-2 p-2">
+            <Skeleton className="h-4 w-48" />
+            <Skeleton className="h-3 w-32" />
+          </div>
+        ))}
+    </div>
+  )
+}
+
+export function DeletedExpenseList() {
+  const t = useTranslations('Trash')
+  const locale = useLocale()
+  const { group, groupId } = useCurrentGroup()
+  const activeUserId = useActiveUser(groupId)
+  const utils = trpc.useUtils()
+  const { data, isLoading } = trpc.groups.trash.list.useQuery({ groupId })
+  const { mutateAsync: restore } = trpc.groups.trash.restore.useMutation()
+
+  if (isLoading || !data || !group) return <DeletedExpensesLoading />
+
+  if (data.expenses.length === 0)
+    return <p className="text-sm py-6">{t('empty')}</p>
+
+  return (
+    <div className="flex flex-col">
+      {data.expenses.map((expense) => (
+        <div
+          key={expense.id}
+          className="flex gap-2 items-start border-b last:border-b-0 py-4 text-sm"
+        >
+          <CategoryIcon
+            category={expense.category}
+            className="w-4 h-4 mr-2 mt-0.5 text-muted-foreground"
+          />
+          <div className="flex-1 flex flex-col gap-1">
+            <div className={cn(expense.isReimbursement && 'italic')}>
+              {expense.title}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {t('deletedOn', {
+                date: formatDate(expense.deletedAt, locale, {
+                  dateStyle: 'medium',
+                }),
+              })}{' '}
+              {t('purgedOn', {
+                date: formatDate(expense.purgeDate, locale, {
+                  dateStyle: 'medium',
+                }),
+              })}
+            </div>
+          </div>
+          <div className="flex flex-col gap-2 items-end">
+            <div className="font-bold tabular-nums whitespace-nowrap">
+              {formatCurrency(
+                getCurrencyFromGroup(group),
+                expense.amount,
+                locale,
+              )}
+            </div>
+            <AsyncButton
+              variant="outline"
+              size="sm"
+              loadingContent={t('restoring')}
+              action={async () => {
+                await restore({
+                  groupId,
+                  expenseId: expense.id,
+                  participantId: activeUserId ?? undefined,
+                })
+                await utils.groups.invalidate()
+              }}
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              {t('restore')}
+            </AsyncButton>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,26 @@
+'use client'
+import { DeletedExpenseList } from '@/app/groups/[groupId]/expenses/trash/deleted-expense-list'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { useTranslations } from 'next-intl'
+
+export function TrashPageClient({ retentionDays }: { retentionDays: number }) {
+  const t = useTranslations('Trash')
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <CardTitle>{t('title')}</CardTitle>
+        <CardDescription>{t('description', { retentionDays })}</CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col space-y-4">
+        <DeletedExpenseList />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,11 @@
+import { TrashPageClient } from '@/app/groups/[groupId]/expenses/trash/page.client'
+import { env } from '@/lib/env'
+import { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Trash',
+}
+
+export default async function TrashPage() {
+  return <TrashPageClient retentionDays={env.EXPENSE_TRASH_RETENTION_DAYS} />
+}
@@ -27,6 +27,7 @@ export function GroupTabs({ groupId }: Props) {
         <TabsTrigger value="balances">{t('Balances.title')}</TabsTrigger>
         <TabsTrigger value="information">{t('Information.title')}</TabsTrigger>
         <TabsTrigger value="stats">{t('Stats.title')}</TabsTrigger>
+        <TabsTrigger value="recurring">{t('Recurring.title')}</TabsTrigger>
         <TabsTrigger value="activity">{t('Activity.title')}</TabsTrigger>
         <TabsTrigger value="edit">{t('Settings.title')}</TabsTrigger>
       </TabsList>
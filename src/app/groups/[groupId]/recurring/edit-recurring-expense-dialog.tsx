@@ -0,0 +1,181 @@
+'use client'
+import type { RecurringExpenseSeries } from '@/app/groups/[groupId]/recurring/recurring-expense-list'
+import { CategorySelector } from '@/components/category-selector'
+import { RecurrenceFields } from '@/components/recurrence-fields'
+import { SubmitButton } from '@/components/submit-button'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import { getRecurrenceFormValues } from '@/lib/recurrence'
+import {
+  RecurringExpenseSeriesFormValues,
+  recurringExpenseSeriesFormSchema,
+} from '@/lib/schemas'
+import {
+  amountAsDecimal,
+  amountAsMinorUnits,
+  getCurrencyFromGroup,
+} from '@/lib/utils'
+import { trpc } from '@/trpc/client'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useTranslations } from 'next-intl'
+import { PropsWithChildren, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { useCurrentGroup } from '../current-group-context'
+
+export function EditRecurringExpenseDialog({
+  series,
+  onSaved,
+  children,
+}: PropsWithChildren<{
+  series: RecurringExpenseSeries
+  onSaved: () => Promise<void>
+}>) {
+  const t = useTranslations('Recurring.EditDialog')
+  const tExpense = useTranslations('ExpenseForm')
+  const [open, setOpen] = useState(false)
+  const { group, groupId } = useCurrentGroup()
+  const { data: categoriesData } = trpc.categories.list.useQuery()
+  const { mutateAsync: update } =
+    trpc.groups.recurringExpenses.update.useMutation()
+
+  const expense = series.currentFrameExpense
+  const groupCurrency = group ? getCurrencyFromGroup(group) : null
+  const hasFixedAmounts =
+    expense.splitMode === 'BY_AMOUNT' ||
+    expense.splitMode === 'BY_ITEMS' ||
+    expense.payersSplitMode === 'BY_AMOUNT'
+  const anchorDate = expense.recurrenceStartDate ?? expense.expenseDate
+  const sExpense = expense.amount < 0 ? 'Income' : 'Expense'
+
+  const form = useForm<RecurringExpenseSeriesFormValues>({
+    resolver: zodResolver(recurringExpenseSeriesFormSchema),
+    defaultValues: {
+      title: series.title ?? expense.title,
+      category: series.categoryId ?? expense.categoryId,
+      amount: groupCurrency
+        ? amountAsDecimal(series.amount ?? expense.amount, groupCurrency)
+        : 0,
+      expenseDate: expense.expenseDate,
+      recurrence: getRecurrenceFormValues(expense.recurrenceRule),
+    },
+  })
+
+  if (!groupCurrency) return null
+
+  const submit = async (values: RecurringExpenseSeriesFormValues) => {
+    await update({
+      groupId,
+      recurringExpenseLinkId: series.id,
+      seriesFormValues: {
+        ...values,
+        amount: amountAsMinorUnits(values.amount, groupCurrency),
+      },
+    })
+    await onSaved()
+    setOpen(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogTitle>{t('title')}</DialogTitle>
+        <DialogDescription>{t('description')}</DialogDescription>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(submit)}
+            className="flex flex-col gap-4"
+          >
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {tExpense(`${sExpense}.TitleField.label`)}
+                  </FormLabel>
+                  <FormControl>
+                    <Input className="text-base" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{tExpense('categoryField.label')}</FormLabel>
+                  <CategorySelector
+                    categories={categoriesData?.categories ?? []}
+                    defaultValue={field.value}
+                    onValueChange={field.onChange}
+                    isLoading={!categoriesData}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="amount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{tExpense('amountField.label')}</FormLabel>
+                  <div className="flex items-baseline gap-2">
+                    <span>{group?.currency}</span>
+                    <FormControl>
+                      <Input
+                        className="text-base max-w-[120px]"
+                        type="text"
+                        inputMode="decimal"
+                        disabled={hasFixedAmounts}
+                        {...field}
+                      />
+                    </FormControl>
+                  </div>
+                  {hasFixedAmounts && (
+                    <FormDescription>{t('amountFixed')}</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <RecurrenceFields
+              form={form}
+              anchorDate={anchorDate}
+              description={tExpense(`RecurrenceField.description${sExpense}`)}
+            />
+            <DialogFooter className="flex flex-col gap-2">
+              <SubmitButton loadingContent={tExpense('saving')}>
+                {t('save')}
+              </SubmitButton>
+              <DialogClose asChild>
+                <Button variant="secondary">{t('cancel')}</Button>
+              </DialogClose>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
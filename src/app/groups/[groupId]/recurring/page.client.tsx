@@ -0,0 +1,27 @@
+import { RecurringExpenseList } from '@/app/groups/[groupId]/recurring/recurring-expense-list'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { useTranslations } from 'next-intl'
+
+export function RecurringPageClient() {
+  const t = useTranslations('Recurring')
+
+  return (
+    <>
+      <Card className="mb-4">
+        <CardHeader>
+          <CardTitle>{t('title')}</CardTitle>
+          <CardDescription>{t('description')}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col space-y-4">
+          <RecurringExpenseList />
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,10 @@
+import { RecurringPageClient } from '@/app/groups/[groupId]/recurring/page.client'
+import { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Recurring expenses',
+}
+
+export default async function RecurringPage() {
+  return <RecurringPageClient />
+}
@@ -0,0 +1,225 @@
+'use client'
+import { EditRecurringExpenseDialog } from '@/app/groups/[groupId]/recurring/edit-recurring-expense-dialog'
+import { AsyncButton } from '@/components/async-button'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Skeleton } from '@/components/ui/skeleton'
+import { parseRecurrenceRule } from '@/lib/recurrence'
+import {
+  formatCurrency,
+  formatDateOnly,
+  getCurrencyFromGroup,
+} from '@/lib/utils'
+import { trpc } from '@/trpc/client'
+import { AppRouterOutput } from '@/trpc/routers/_app'
+import { Pause, Pencil, Play, SkipForward, Square } from 'lucide-react'
+import { useLocale, useTranslations } from 'next-intl'
+import { useCurrentGroup } from '../current-group-context'
+
+export type RecurringExpenseSeries =
+  AppRouterOutput['groups']['recurringExpenses']['list']['series'][number]
+
+function RecurringExpensesLoading() {
+  return (
+    <div className="flex flex-col gap-4">
+      {Array(3)
+        .fill(undefined)
+        .map((_, index) => (
+          <div key={index} className="flex flex-col gap-2 p-2">
+            <Skeleton className="h-4 w-48" />
+            <Skeleton className="h-3 w-32" />
+          </div>
+        ))}
+    </div>
+  )
+}
+
+function RecurrenceDescription({ rule }: { rule: string }) {
+  const t = useTranslations()
+  const locale = useLocale()
+  const { frequency, interval, until, count } = parseRecurrenceRule(rule)
+  const parts = [
+    t('Recurring.every', {
+      interval,
+      unit: t(`ExpenseForm.RecurrenceField.units.${frequency}`, {
+        count: interval,
+      }),
+    }),
+  ]
+  if (until)
+    parts.push(
+      t('Recurring.until', {
+        date: formatDateOnly(until, locale, { dateStyle: 'medium' }),
+      }),
+    )
+  if (count) parts.push(t('Recurring.count', { count }))
+  return <>{parts.join(', ')}</>
+}
+
+function EndSeriesDialog({ onEnd }: { onEnd: () => Promise<void> }) {
+  const t = useTranslations('Recurring')
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Square className="w-4 h-4 mr-2" />
+          {t('end')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogTitle>{t('EndDialog.title')}</DialogTitle>
+        <DialogDescription>{t('EndDialog.description')}</DialogDescription>
+        <DialogFooter className="flex flex-col gap-2">
+          <AsyncButton type="button" variant="destructive" action={onEnd}>
+            {t('EndDialog.yes')}
+          </AsyncButton>
+          <DialogClose asChild>
+            <Button variant="secondary">{t('EndDialog.cancel')}</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function RecurringExpenseItem({ series }: { series: RecurringExpenseSeries }) {
+  const t = useTranslations('Recurring')
+  const locale = useLocale()
+  const { group, groupId } = useCurrentGroup()
+  const utils = trpc.useUtils()
+  const { mutateAsync: pause } =
+    trpc.groups.recurringExpenses.pause.useMutation()
+  const { mutateAsync: resume } =
+    trpc.groups.recurringExpenses.resume.useMutation()
+  const { mutateAsync: skip } = trpc.groups.recurringExpenses.skip.useMutation()
+  const { mutateAsync: end } = trpc.groups.recurringExpenses.end.useMutation()
+
+  if (!group) return null
+
+  const expense = series.currentFrameExpense
+  const input = { groupId, recurringExpenseLinkId: series.id }
+  const refresh = async () => {
+    await utils.groups.recurringExpenses.invalidate()
+    await utils.groups.expenses.invalidate()
+  }
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row sm:justify-between border-b last:border-b-0 py-4">
+      <div className="flex flex-col gap-1 text-sm">
+        <div className="flex items-center gap-2 font-semibold">
+          {series.title ?? expense.title}
+          {series.pausedAt && <Badge variant="secondary">{t('paused')}</Badge>}
+        </div>
+        <div className="text-muted-foreground">
+          {t.rich('paidBy', {
+            strong: (chunks) => <strong>{chunks}</strong>,
+            paidBy: expense.paidBy.name,
+          })}
+        </div>
+        <div className="text-muted-foreground">
+          {expense.recurrenceRule && (
+            <RecurrenceDescription rule={expense.recurrenceRule} />
+          )}
+        </div>
+        {!series.pausedAt && (
+          <div className="text-muted-foreground">
+            {t('nextExpense', {
+              date: formatDateOnly(series.nextExpenseDate, locale, {
+                dateStyle: 'medium',
+              }),
+            })}
+          </div>
+        )}
+      </div>
+      <div className="flex flex-col gap-2 sm:items-end">
+        <div className="font-bold tabular-nums">
+          {formatCurrency(
+            getCurrencyFromGroup(group),
+            series.amount ?? expense.amount,
+            locale,
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2 sm:justify-end">
+          {series.pausedAt ? (
+            <AsyncButton
+              variant="outline"
+              size="sm"
+              action={async () => {
+                await resume(input)
+                await refresh()
+              }}
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {t('resume')}
+            </AsyncButton>
+          ) : (
+            <>
+              <AsyncButton
+                variant="outline"
+                size="sm"
+                action={async () => {
+                  await pause(input)
+                  await refresh()
+                }}
+              >
+                <Pause className="w-4 h-4 mr-2" />
+                {t('pause')}
+              </AsyncButton>
+              <AsyncButton
+                variant="outline"
+                size="sm"
+                action={async () => {
+                  await skip(input)
+                  await refresh()
+                }}
+              >
+                <SkipForward className="w-4 h-4 mr-2" />
+                {t('skip')}
+              </AsyncButton>
+            </>
+          )}
+          <EditRecurringExpenseDialog series={series} onSaved={refresh}>
+            <Button variant="outline" size="sm">
+              <Pencil className="w-4 h-4 mr-2" />
+              {t('edit')}
+            </Button>
+          </EditRecurringExpenseDialog>
+          <EndSeriesDialog
+            onEnd={async () => {
+              await end(input)
+              await refresh()
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function RecurringExpenseList() {
+  const t = useTranslations('Recurring')
+  const { groupId } = useCurrentGroup()
+  const { data, isLoading } = trpc.groups.recurringExpenses.list.useQuery({
+    groupId,
+  })
+
+  if (isLoading || !data) return <RecurringExpensesLoading />
+
+  return data.series.length > 0 ? (
+    <div className="flex flex-col">
+      {data.series.map((series) => (
+        <RecurringExpenseItem key={series.id} series={series} />
+      ))}
+    </div>
+  ) : (
+    <p className="text-sm py-6">{t('noSeries')}</p>
+  )
+}
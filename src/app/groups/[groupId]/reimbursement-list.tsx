@@ -1,16 +1,40 @@
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { useToast } from '@/components/ui/use-toast'
 import { Reimbursement } from '@/lib/balances'
 import { Currency } from '@/lib/currency'
-import { formatCurrency } from '@/lib/utils'
+import { useActiveUser } from '@/lib/hooks'
+import {
+  formatIban,
+  getEpcQrPayload,
+  getPaymentLinks,
+  hasPaymentDetails,
+} from '@/lib/payments'
+import {
+  amountAsDecimal,
+  amountAsMinorUnits,
+  formatCurrency,
+} from '@/lib/utils'
+import { trpc } from '@/trpc/client'
 import { Participant } from '@prisma/client'
+import { Loader2, QrCode } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
 import Link from 'next/link'
+import { QRCodeSVG } from 'qrcode.react'
+import { useState } from 'react'
 
 type Props = {
   reimbursements: Reimbursement[]
   participants: Participant[]
   currency: Currency
   groupId: string
+  groupName: string
 }
 
 export function ReimbursementList({
@@ -18,6 +42,7 @@ export function ReimbursementList({
   participants,
   currency,
   groupId,
+  groupName,
 }: Props) {
   const locale = useLocale()
   const t = useTranslations('Balances.Reimbursements')
@@ -28,27 +53,223 @@ export function ReimbursementList({
   const getParticipant = (id: string) => participants.find((p) => p.id === id)
   return (
     <div className="text-sm">
-      {reimbursements.map((reimbursement, index) => (
-        <div className="py-4 flex justify-between" key={index}>
-          <div className="flex flex-col gap-1 items-start sm:flex-row sm:items-baseline sm:gap-4">
-            <div>
-              {t.rich('owes', {
-                from: getParticipant(reimbursement.from)?.name ?? '',
-                to: getParticipant(reimbursement.to)?.name ?? '',
-                strong: (chunks) => <strong>{chunks}</strong>,
-              })}
+      {reimbursements.map((reimbursement) => {
+        const recipient = getParticipant(reimbursement.to)
+        return (
+          <div
+            className="py-4"
+            key={`${reimbursement.from}-${reimbursement.to}-${reimbursement.amount}`}
+          >
+            <div className="flex justify-between">
+              <div className="flex flex-col gap-1 items-start sm:flex-row sm:items-baseline sm:gap-4">
+                <div>
+                  {t.rich('owes', {
+                    from: getParticipant(reimbursement.from)?.name ?? '',
+                    to: recipient?.name ?? '',
+                    strong: (chunks) => <strong>{chunks}</strong>,
+                  })}
+                </div>
+                <MarkAsPaidButton
+                  reimbursement={reimbursement}
+                  currency={currency}
+                  groupId={groupId}
+                />
+              </div>
+              <div>
+                {formatCurrency(currency, reimbursement.amount, locale)}
+              </div>
             </div>
-            <Button variant="link" asChild className="-mx-4 -my-3">
-              <Link
-                href={`/groups/${groupId}/expenses/create?reimbursement=yes&from=${reimbursement.from}&to=${reimbursement.to}&amount=${reimbursement.amount}`}
-              >
-                {t('markAsPaid')}
-              </Link>
-            </Button>
+            {recipient && hasPaymentDetails(recipient) && (
+              <PaymentDetailsList
+                recipient={recipient}
+                reimbursement={reimbursement}
+                currency={currency}
+                groupName={groupName}
+              />
+            )}
           </div>
-          <div>{formatCurrency(currency, reimbursement.amount, locale)}</div>
+        )
+      })}
+    </div>
+  )
+}
+
+function MarkAsPaidButton({
+  reimbursement,
+  currency,
+  groupId,
+}: {
+  reimbursement: Reimbursement
+  currency: Currency
+  groupId: string
+}) {
+  const t = useTranslations('Balances.Reimbursements')
+  const tForm = useTranslations('ExpenseForm')
+  const [open, setOpen] = useState(false)
+  const getSuggestedAmount = () =>
+    String(amountAsDecimal(reimbursement.amount, currency))
+  const [amount, setAmount] = useState(getSuggestedAmount)
+  const activeUser = useActiveUser(groupId)
+  const { toast } = useToast()
+  const utils = trpc.useUtils()
+  const { mutateAsync, isPending } = trpc.groups.balances.settle.useMutation()
+
+  const amountInMinorUnits = amountAsMinorUnits(Number(amount), currency)
+  const isValid = Number.isFinite(amountInMinorUnits) && amountInMinorUnits > 0
+
+  const markAsPaid = async () => {
+    try {
+      await mutateAsync({
+        groupId,
+        from: reimbursement.from,
+        to: reimbursement.to,
+        amount: amountInMinorUnits,
+        title: tForm('reimbursement'),
+        participantId:
+          activeUser && activeUser !== 'None' ? activeUser : undefined,
+      })
+    } catch (err) {
+      console.error(err)
+      toast({
+        title: t('ErrorToast.title'),
+        description: t('ErrorToast.description'),
+        variant: 'destructive',
+      })
+      return
+    }
+    await Promise.all([
+      utils.groups.balances.invalidate(),
+      utils.groups.expenses.invalidate(),
+      utils.groups.activities.invalidate(),
+    ])
+    setOpen(false)
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(open) => {
+        // The suggested amount may have changed since the last opening
+        if (open) setAmount(getSuggestedAmount())
+        setOpen(open)
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="link" className="-mx-4 -my-3">
+          {t('markAsPaid')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="flex flex-col gap-3">
+        <div className="flex flex-col gap-2">
+          <Label htmlFor={`amount-${reimbursement.from}-${reimbursement.to}`}>
+            {t('amountPaid')}
+          </Label>
+          <div className="flex items-baseline gap-2">
+            <span>{currency.symbol}</span>
+            <Input
+              id={`amount-${reimbursement.from}-${reimbursement.to}`}
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step={10 ** -currency.decimal_digits}
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="link" asChild className="px-0">
+            <Link
+              href={`/groups/${groupId}/expenses/create?reimbursement=yes&from=${
+                reimbursement.from
+              }&to=${reimbursement.to}&amount=${
+                isValid ? amountInMinorUnits : reimbursement.amount
+              }`}
+            >
+              {t('moreOptions')}
+            </Link>
+          </Button>
+          <Button onClick={markAsPaid} disabled={!isValid || isPending}>
+            {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {t('confirm')}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function PaymentDetailsList({
+  recipient,
+  reimbursement,
+  currency,
+  groupName,
+}: {
+  recipient: Participant
+  reimbursement: Reimbursement
+  currency: Currency
+  groupName: string
+}) {
+  const locale = useLocale()
+  const t = useTranslations('Balances.Reimbursements.Payment')
+  const request = {
+    amount: amountAsDecimal(reimbursement.amount, currency),
+    currency,
+    reference: groupName,
+  }
+  const links = getPaymentLinks(recipient, request)
+  const epcQrPayload = getEpcQrPayload(recipient, request)
+
+  return (
+    <div className="mt-2 flex flex-col gap-2 text-muted-foreground">
+      {links.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>{t('payWith', { name: recipient.name })}</span>
+          {links.map(({ method, url }) => (
+            <Button key={method} variant="outline" size="sm" asChild>
+              <a href={url} target="_blank" rel="noopener noreferrer">
+                {t(method)}
+              </a>
+            </Button>
+          ))}
+        </div>
+      )}
+      {recipient.iban && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>
+            {t('iban')}{' '}
+            <span className="font-mono select-all">
+              {formatIban(recipient.iban)}
+            </span>
+          </span>
+          {epcQrPayload && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <QrCode className="w-4 h-4 mr-2" />
+                  {t('qrCode')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="flex flex-col items-center gap-3 w-auto">
+                <QRCodeSVG value={epcQrPayload} size={192} level="M" />
+                <p className="text-sm text-center max-w-48">
+                  {t('qrCodeDescription', {
+                    amount: formatCurrency(
+                      currency,
+                      reimbursement.amount,
+                      locale,
+                    ),
+                    name: recipient.name,
+                  })}
+                </p>
+              </PopoverContent>
+            </Popover>
+          )}
         </div>
-      ))}
+      )}
+      {recipient.paymentNote && (
+        <p className="whitespace-pre-wrap">{recipient.paymentNote}</p>
+      )}
     </div>
   )
 }
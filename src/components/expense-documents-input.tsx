@@ -18,26 +18,42 @@ import {
 import { ToastAction } from '@/components/ui/toast'
 import { useToast } from '@/components/ui/use-toast'
 import { randomId } from '@/lib/api'
+import { RuntimeFeatureFlags } from '@/lib/featureFlags'
+import { useDocumentUpload } from '@/lib/hooks'
+import { getPdfThumbnail } from '@/lib/pdf'
 import { ExpenseFormValues } from '@/lib/schemas'
-import { formatFileSize } from '@/lib/utils'
-import { Loader2, Plus, Trash, X } from 'lucide-react'
+import { cn, formatFileSize } from '@/lib/utils'
+import { Download, FileText, Loader2, Plus, Trash, X } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
-import { getImageData, usePresignedUpload } from 'next-s3-upload'
+import { getImageData } from 'next-s3-upload'
 import Image from 'next/image'
 import { useEffect, useState } from 'react'
 
+type ExpenseDocument = ExpenseFormValues['documents'][number]
+
+/** Documents without content type were uploaded when only images were supported. */
+function isImage(document: ExpenseDocument) {
+  return !document.contentType || document.contentType.startsWith('image/')
+}
+
 type Props = {
   documents: ExpenseFormValues['documents']
   updateDocuments: (documents: ExpenseFormValues['documents']) => void
+  storageDriver: RuntimeFeatureFlags['storageDriver']
 }
 
 const MAX_FILE_SIZE = 5 * 1024 ** 2
 
-export function ExpenseDocumentsInput({ documents, updateDocuments }: Props) {
+export function ExpenseDocumentsInput({
+  documents,
+  updateDocuments,
+  storageDriver,
+}: Props) {
   const locale = useLocale()
   const t = useTranslations('ExpenseDocumentsInput')
   const [pending, setPending] = useState(false)
-  const { FileInput, openFileDialog, uploadToS3 } = usePresignedUpload() // use presigned uploads to addtionally support providers other than AWS
+  const { FileInput, openFileDialog, uploadDocument } =
+    useDocumentUpload(storageDriver)
   const { toast } = useToast()
 
   const handleFileChange = async (file: File) => {
@@ -56,10 +72,25 @@ export function ExpenseDocumentsInput({ documents, updateDocuments }: Props) {
     const upload = async () => {
       try {
         setPending(true)
-        const { width, height } = await getImageData(file)
-        if (!width || !height) throw new Error('Cannot get image dimensions')
-        const { url } = await uploadToS3(file)
-        updateDocuments([...documents, { id: randomId(), url, width, height }])
+        let details: Partial<ExpenseDocument> = {}
+        if (file.type.startsWith('image/')) {
+          const { width, height } = await getImageData(file)
+          if (!width || !height) throw new Error('Cannot get image dimensions')
+          details = { width, height }
+        } else if (file.type === 'application/pdf') {
+          details = await uploadPdfThumbnail(file)
+        }
+        const { url } = await uploadDocument(file)
+        updateDocuments([
+          ...documents,
+          {
+            id: randomId(),
+            url,
+            contentType: file.type || null,
+            name: file.name,
+            ...details,
+          },
+        ])
       } catch (err) {
         console.error(err)
         toast({
@@ -82,9 +113,27 @@ export function ExpenseDocumentsInput({ documents, updateDocuments }: Props) {
     upload()
   }
 
+  const uploadPdfThumbnail = async (
+    file: File,
+  ): Promise<Partial<ExpenseDocument>> => {
+    try {
+      const thumbnail = await getPdfThumbnail(file)
+      const { url } = await uploadDocument(thumbnail.file)
+      return {
+        thumbnailUrl: url,
+        width: thumbnail.width,
+        height: thumbnail.height,
+      }
+    } catch (err) {
+      // the document can still be attached without preview
+      console.error(err)
+      return {}
+    }
+  }
+
   return (
     <div>
-      <FileInput onChange={handleFileChange} accept="image/jpeg,image/png" />
+      <FileInput onChange={handleFileChange} />
 
       <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 [&_*]:aspect-square">
         {documents.map((doc) => (
@@ -123,9 +172,9 @@ export function DocumentThumbnail({
   documents,
   deleteDocument,
 }: {
-  document: ExpenseFormValues['documents'][number]
+  document: ExpenseDocument
   documents: ExpenseFormValues['documents']
-  deleteDocument: (document: ExpenseFormValues['documents'][number]) => void
+  deleteDocument: (document: ExpenseDocument) => void
 }) {
   const [open, setOpen] = useState(false)
   const [api, setApi] = useState<CarouselApi>()
@@ -149,13 +198,21 @@ export function DocumentThumbnail({
           variant="secondary"
           className="w-full h-full border overflow-hidden rounded shadow-inner"
         >
-          <Image
-            width={300}
-            height={300}
-            className="object-contain"
-            src={document.url}
-            alt=""
-          />
+          {isImage(document) || document.thumbnailUrl ? (
+            <Image
+              width={300}
+              height={300}
+              className="object-contain"
+              src={
+                isImage(document)
+                  ? document.url
+                  : (document.thumbnailUrl as string)
+              }
+              alt={document.name ?? ''}
+            />
+          ) : (
+            <FileText className="w-8 h-8" aria-label={document.name ?? ''} />
+          )}
         </Button>
       </DialogTrigger>
       <DialogContent className="p-4 w-[100vw] max-w-[100vw] h-[100dvh] max-h-[100dvh] sm:max-w-[calc(100vw-32px)] sm:max-h-[calc(100dvh-32px)] [&>:last-child]:hidden">
@@ -194,13 +251,7 @@ export function DocumentThumbnail({
             <CarouselContent>
               {documents.map((document, index) => (
                 <CarouselItem key={index}>
-                  <Image
-                    className="object-contain w-[calc(100vw-32px)] h-[calc(100dvh-32px-40px-16px-48px)] sm:w-[calc(100vw-32px-32px)] sm:h-[calc(100dvh-32px-40px-16px-32px-48px)]"
-                    src={document.url}
-                    width={document.width}
-                    height={document.height}
-                    alt=""
-                  />
+                  <DocumentViewer document={document} />
                 </CarouselItem>
               ))}
             </CarouselContent>
@@ -212,3 +263,50 @@ export function DocumentThumbnail({
     </Dialog>
   )
 }
+
+const viewerClassName =
+  'w-[calc(100vw-32px)] h-[calc(100dvh-32px-40px-16px-48px)] sm:w-[calc(100vw-32px-32px)] sm:h-[calc(100dvh-32px-40px-16px-32px-48px)]'
+
+function DocumentViewer({ document }: { document: ExpenseDocument }) {
+  const t = useTranslations('ExpenseDocumentsInput')
+
+  if (isImage(document)) {
+    return (
+      <Image
+        className={cn('object-contain', viewerClassName)}
+        src={document.url}
+        width={document.width ?? undefined}
+        height={document.height ?? undefined}
+        alt={document.name ?? ''}
+      />
+    )
+  }
+
+  if (document.contentType === 'application/pdf') {
+    return (
+      <iframe
+        className={viewerClassName}
+        src={document.url}
+        title={document.name ?? ''}
+      />
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'flex flex-col items-center justify-center gap-4',
+        viewerClassName,
+      )}
+    >
+      <FileText className="w-16 h-16 text-muted-foreground" />
+      {document.name && <p className="text-sm">{document.name}</p>}
+      <Button asChild variant="secondary">
+        <a href={document.url} target="_blank" rel="noopener noreferrer">
+          <Download className="w-4 h-4 mr-2" />
+          {t('download')}
+        </a>
+      </Button>
+    </div>
+  )
+}
@@ -1,3 +1,6 @@
+import { CategorySelector } from '@/components/category-selector'
+import { MergeParticipantDialog } from '@/components/merge-participant-dialog'
+import { RemoveParticipantDialog } from '@/components/remove-participant-dialog'
 import { SubmitButton } from '@/components/submit-button'
 import { Button } from '@/components/ui/button'
 import {
@@ -8,6 +11,7 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
 import {
   Form,
   FormControl,
@@ -17,11 +21,6 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form'
-import {
-  HoverCard,
-  HoverCardContent,
-  HoverCardTrigger,
-} from '@/components/ui/hover-card'
 import { Input } from '@/components/ui/input'
 import {
   Select,
@@ -33,9 +32,12 @@ import {
 import { Locale } from '@/i18n/request'
 import { getGroup } from '@/lib/api'
 import { defaultCurrencyList, getCurrency } from '@/lib/currency'
+import { getMergedGroupSettings } from '@/lib/participants'
+import { formatIban } from '@/lib/payments'
 import { GroupFormValues, groupFormSchema } from '@/lib/schemas'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { Save, Trash2 } from 'lucide-react'
+import { Category } from '@prisma/client'
+import { ArchiveRestore, Save, Trash2, Wallet } from 'lucide-react'
 import { useLocale, useTranslations } from 'next-intl'
 import Link from 'next/link'
 import { useEffect, useState } from 'react'
@@ -43,19 +45,55 @@ import { useFieldArray, useForm } from 'react-hook-form'
 import { CurrencySelector } from './currency-selector'
 import { Textarea } from './ui/textarea'
 
+const paymentDetailsFields = [
+  'iban',
+  'paypalMe',
+  'venmo',
+  'revolut',
+  'upi',
+  'paymentNote',
+] as const
+
+type Group = NonNullable<Awaited<ReturnType<typeof getGroup>>>
+
+const NO_DEFAULT_PAYER = 'none'
+
+function getParticipantFormValues(participant: Group['participants'][number]) {
+  return {
+    id: participant.id,
+    name: participant.name,
+    iban: participant.iban ? formatIban(participant.iban) : '',
+    paypalMe: participant.paypalMe ?? '',
+    venmo: participant.venmo ?? '',
+    revolut: participant.revolut ?? '',
+    upi: participant.upi ?? '',
+    paymentNote: participant.paymentNote ?? '',
+    defaultShares: participant.defaultShares / 100,
+    inDefaultSplit: participant.inDefaultSplit,
+  }
+}
+
 export type Props = {
-  group?: NonNullable<Awaited<ReturnType<typeof getGroup>>>
+  group?: Group
   onSubmit: (
     groupFormValues: GroupFormValues,
     participantId?: string,
   ) => Promise<void>
   protectedParticipantIds?: string[]
+  categories?: Category[]
+  onMergeParticipants?: (
+    fromId: string,
+    toId: string,
+    participantId?: string,
+  ) => Promise<void>
 }
 
 export function GroupForm({
   group,
   onSubmit,
   protectedParticipantIds = [],
+  categories,
+  onMergeParticipants,
 }: Props) {
   const locale = useLocale()
   const t = useTranslations('GroupForm')
@@ -67,18 +105,40 @@ export function GroupForm({
           information: group.information ?? '',
           currency: group.currency ?? '',
           currencyCode: group.currencyCode ?? '',
-          participants: group.participants,
+          settlementAlgorithm: group.settlementAlgorithm,
+          settlementRestriction: group.settlementRestriction,
+          treasurerId: group.treasurerId,
+          settlementPairs: group.settlementPairs.map(({ fromId, toId }) => ({
+            fromId,
+            toId,
+          })),
+          defaultSplitMode:
+            group.defaultSplitMode === 'BY_SHARES' ? 'BY_SHARES' : 'EVENLY',
+          defaultCategoryId: group.defaultCategoryId,
+          defaultPayerId: group.defaultPayerId,
+          participants: group.participants
+            .filter((participant) => participant.archivedAt === null)
+            .map(getParticipantFormValues),
+          reassignedParticipants: [],
         }
       : {
           name: '',
           information: '',
           currency: '',
           currencyCode: process.env.NEXT_PUBLIC_DEFAULT_CURRENCY_CODE || 'USD', // TODO: If NEXT_PUBLIC_DEFAULT_CURRENCY_CODE, is not set, determine the default currency code based on locale
+          settlementAlgorithm: 'GREEDY',
+          settlementRestriction: 'NONE',
+          treasurerId: null,
+          settlementPairs: [],
+          defaultSplitMode: 'EVENLY',
+          defaultCategoryId: 0,
+          defaultPayerId: null,
           participants: [
-            { name: t('Participants.John') },
-            { name: t('Participants.Jane') },
-            { name: t('Participants.Jack') },
+            { name: t('Participants.John'), defaultShares: 1 },
+            { name: t('Participants.Jane'), defaultShares: 1 },
+            { name: t('Participants.Jack'), defaultShares: 1 },
           ],
+          reassignedParticipants: [],
         },
   })
   const { fields, append, remove } = useFieldArray({
@@ -86,6 +146,83 @@ export function GroupForm({
     name: 'participants',
     keyName: 'key',
   })
+  const {
+    fields: settlementPairFields,
+    append: appendSettlementPair,
+    remove: removeSettlementPair,
+    replace: replaceSettlementPairs,
+  } = useFieldArray({
+    control: form.control,
+    name: 'settlementPairs',
+    keyName: 'key',
+  })
+  const [expandedPaymentDetails, setExpandedPaymentDetails] = useState<
+    string[]
+  >([])
+  const togglePaymentDetails = (key: string) =>
+    setExpandedPaymentDetails((keys) =>
+      keys.includes(key) ? keys.filter((k) => k !== key) : [...keys, key],
+    )
+  const removeParticipant = (
+    index: number,
+    reassignToId: string | null = null,
+  ) => {
+    const removedId = form.getValues(`participants.${index}.id`)
+    // Expenses cannot be moved to a removed participant, they are archived
+    const reassignedParticipants = form
+      .getValues('reassignedParticipants')
+      .filter(({ toId }) => toId !== removedId)
+    if (removedId && reassignToId)
+      reassignedParticipants.push({ fromId: removedId, toId: reassignToId })
+    form.setValue('reassignedParticipants', reassignedParticipants)
+    remove(index)
+  }
+  const mergeParticipant = async (index: number, toId: string) => {
+    const fromId = form.getValues(`participants.${index}.id`)
+    if (!fromId || !onMergeParticipants) return
+    await onMergeParticipants(fromId, toId, getActiveUserId())
+    // The merged participant does not exist anymore, the merge already moved
+    // its settings on the server
+    const { treasurerId, defaultPayerId, settlementPairs } =
+      getMergedGroupSettings(
+        {
+          treasurerId: form.getValues('treasurerId') ?? null,
+          defaultPayerId: form.getValues('defaultPayerId') ?? null,
+          settlementPairs: form.getValues('settlementPairs'),
+        },
+        fromId,
+        toId,
+      )
+    form.setValue('treasurerId', treasurerId)
+    form.setValue('defaultPayerId', defaultPayerId)
+    replaceSettlementPairs(settlementPairs)
+    form.setValue(
+      'reassignedParticipants',
+      form
+        .getValues('reassignedParticipants')
+        .map((reassignment) =>
+          reassignment.toId === fromId
+            ? { ...reassignment, toId }
+            : reassignment,
+        ),
+    )
+    remove(index)
+  }
+  const getParticipantName = (participantId: string) =>
+    group?.participants.find(({ id }) => id === participantId)?.name
+  // Archived participants can be added back to the group
+  const archivedParticipants = (group?.participants ?? []).filter(
+    (participant) =>
+      participant.archivedAt !== null &&
+      !fields.some(({ id }) => id === participant.id),
+  )
+  const settlementRestriction = form.watch('settlementRestriction')
+  // Restrictions can only reference participants that are already saved
+  const savedParticipants = form
+    .watch('participants')
+    .filter((participant): participant is { id: string; name: string } =>
+      Boolean(participant.id && participant.name),
+    )
 
   const [activeUser, setActiveUser] = useState<string | null>(null)
   useEffect(() => {
@@ -98,6 +235,9 @@ export function GroupForm({
     }
   }, [t, activeUser, fields, group?.id])
 
+  const getActiveUserId = () =>
+    group?.participants.find((p) => p.name === activeUser)?.id ?? undefined
+
   const updateActiveUser = () => {
     if (!activeUser) return
     if (group?.id) {
@@ -116,11 +256,7 @@ export function GroupForm({
     <Form {...form}>
       <form
         onSubmit={form.handleSubmit(async (values) => {
-          await onSubmit(
-            values,
-            group?.participants.find((p) => p.name === activeUser)?.id ??
-              undefined,
-          )
+          await onSubmit(values, getActiveUserId())
         })}
       >
         <Card className="mb-4">
@@ -210,6 +346,35 @@ export function GroupForm({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="settlementAlgorithm"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('SettlementAlgorithmField.label')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="GREEDY">
+                        {t('SettlementAlgorithmField.greedy')}
+                      </SelectItem>
+                      <SelectItem value="MIN_TRANSFERS">
+                        {t('SettlementAlgorithmField.minTransfers')}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {t('SettlementAlgorithmField.description')}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="col-span-2">
               <FormField
                 control={form.control}
@@ -257,32 +422,68 @@ export function GroupForm({
                               {...field}
                               placeholder={t('Participants.new')}
                             />
+                            <FormField
+                              control={form.control}
+                              name={`participants.${index}.defaultShares`}
+                              render={({ field }) => (
+                                <FormItem className="space-y-0">
+                                  <FormLabel className="sr-only">
+                                    {t('Participants.defaultShares')}
+                                  </FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      className="text-base w-20"
+                                      type="number"
+                                      min={0.01}
+                                      step="any"
+                                      required
+                                      title={t(
+                                        'Participants.defaultSharesDescription',
+                                      )}
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                </FormItem>
+                              )}
+                            />
+                            <Button
+                              variant="ghost"
+                              onClick={() => togglePaymentDetails(item.key)}
+                              type="button"
+                              size="icon"
+                              title={t('Participants.paymentDetails')}
+                            >
+                              <Wallet className="w-4 h-4" />
+                            </Button>
+                            {onMergeParticipants &&
+                              item.id &&
+                              savedParticipants.length > 1 && (
+                                <MergeParticipantDialog
+                                  name={field.value}
+                                  otherParticipants={savedParticipants.filter(
+                                    ({ id }) => id !== item.id,
+                                  )}
+                                  onMerge={(toId) =>
+                                    mergeParticipant(index, toId)
+                                  }
+                                />
+                              )}
                             {item.id &&
                             protectedParticipantIds.includes(item.id) ? (
-                              <HoverCard>
-                                <HoverCardTrigger>
-                                  <Button
-                                    variant="ghost"
-                                    className="text-destructive-"
-                                    type="button"
-                                    size="icon"
-                                    disabled
-                                  >
-                                    <Trash2 className="w-4 h-4 text-destructive opacity-50" />
-                                  </Button>
-                                </HoverCardTrigger>
-                                <HoverCardContent
-                                  align="end"
-                                  className="text-sm"
-                                >
-                                  {t('Participants.protectedParticipant')}
-                                </HoverCardContent>
-                              </HoverCard>
+                              <RemoveParticipantDialog
+                                name={field.value}
+                                otherParticipants={savedParticipants.filter(
+                                  ({ id }) => id !== item.id,
+                                )}
+                                onRemove={(reassignToId) =>
+                                  removeParticipant(index, reassignToId)
+                                }
+                              />
                             ) : (
                               <Button
                                 variant="ghost"
                                 className="text-destructive"
-                                onClick={() => remove(index)}
+                                onClick={() => removeParticipant(index)}
                                 type="button"
                                 size="icon"
                               >
@@ -295,15 +496,88 @@ export function GroupForm({
                       </FormItem>
                     )}
                   />
+                  {expandedPaymentDetails.includes(item.key) && (
+                    <div className="grid sm:grid-cols-2 gap-2 mt-2 mb-4">
+                      {paymentDetailsFields.map((detail) => (
+                        <FormField
+                          key={detail}
+                          control={form.control}
+                          name={`participants.${index}.${detail}`}
+                          render={({ field }) => (
+                            <FormItem
+                              className={
+                                detail === 'paymentNote'
+                                  ? 'sm:col-span-2'
+                                  : undefined
+                              }
+                            >
+                              <FormLabel>
+                                {t(`Participants.PaymentDetails.${detail}`)}
+                              </FormLabel>
+                              <FormControl>
+                                <Input
+                                  className="text-base"
+                                  {...field}
+                                  placeholder={t(
+                                    `Participants.PaymentDetails.${detail}Placeholder`,
+                                  )}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                    </div>
+                  )}
                 </li>
               ))}
             </ul>
+            {form.watch('reassignedParticipants').map(({ fromId, toId }) => (
+              <p key={fromId} className="mt-2 text-sm text-muted-foreground">
+                {t('Participants.reassigned', {
+                  from: getParticipantName(fromId) ?? '',
+                  to: getParticipantName(toId) ?? '',
+                })}
+              </p>
+            ))}
+            {archivedParticipants.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm font-medium">
+                  {t('Participants.archivedTitle')}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {t('Participants.archivedDescription')}
+                </p>
+                <ul className="mt-2 flex flex-col gap-1">
+                  {archivedParticipants.map((participant) => (
+                    <li
+                      key={participant.id}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      {participant.name}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        type="button"
+                        onClick={() =>
+                          append(getParticipantFormValues(participant))
+                        }
+                      >
+                        <ArchiveRestore className="w-4 h-4 mr-2" />
+                        {t('Participants.restore')}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </CardContent>
           <CardFooter>
             <Button
               variant="secondary"
               onClick={() => {
-                append({ name: '' })
+                append({ name: '', defaultShares: 1 })
               }}
               type="button"
             >
@@ -312,6 +586,307 @@ export function GroupForm({
           </CardFooter>
         </Card>
 
+        {group && (
+          <Card className="mb-4">
+            <CardHeader>
+              <CardTitle>{t('SettlementRestrictionField.title')}</CardTitle>
+              <CardDescription>
+                {t('SettlementRestrictionField.description')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="settlementRestriction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t('SettlementRestrictionField.label')}
+                      </FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="NONE">
+                            {t('SettlementRestrictionField.none')}
+                          </SelectItem>
+                          <SelectItem value="FORBIDDEN_PAIRS">
+                            {t('SettlementRestrictionField.forbiddenPairs')}
+                          </SelectItem>
+                          <SelectItem value="ALLOWED_PAIRS">
+                            {t('SettlementRestrictionField.allowedPairs')}
+                          </SelectItem>
+                          <SelectItem value="TREASURER">
+                            {t('SettlementRestrictionField.treasurer')}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {settlementRestriction === 'TREASURER' && (
+                  <FormField
+                    control={form.control}
+                    name="treasurerId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          {t('SettlementRestrictionField.treasurerLabel')}
+                        </FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          value={field.value ?? undefined}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {savedParticipants.map(({ id, name }) => (
+                              <SelectItem key={id} value={id}>
+                                {name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {t('SettlementRestrictionField.treasurerDescription')}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              {(settlementRestriction === 'FORBIDDEN_PAIRS' ||
+                settlementRestriction === 'ALLOWED_PAIRS') && (
+                <div className="mt-4">
+                  <p className="text-sm font-medium mb-2">
+                    {t(
+                      settlementRestriction === 'FORBIDDEN_PAIRS'
+                        ? 'SettlementRestrictionField.forbiddenPairsLabel'
+                        : 'SettlementRestrictionField.allowedPairsLabel',
+                    )}
+                  </p>
+                  <ul className="flex flex-col gap-2">
+                    {settlementPairFields.map((item, index) => (
+                      <li key={item.key} className="flex gap-2 items-start">
+                        {(['fromId', 'toId'] as const).map((side) => (
+                          <FormField
+                            key={side}
+                            control={form.control}
+                            name={`settlementPairs.${index}.${side}`}
+                            render={({ field }) => (
+                              <FormItem className="flex-1">
+                                <FormLabel className="sr-only">
+                                  {t(
+                                    side === 'fromId'
+                                      ? 'SettlementRestrictionField.from'
+                                      : 'SettlementRestrictionField.to',
+                                  )}
+                                </FormLabel>
+                                <Select
+                                  onValueChange={field.onChange}
+                                  value={field.value}
+                                >
+                                  <FormControl>
+                                    <SelectTrigger>
+                                      <SelectValue
+                                        placeholder={t(
+                                          side === 'fromId'
+                                            ? 'SettlementRestrictionField.from'
+                                            : 'SettlementRestrictionField.to',
+                                        )}
+                                      />
+                                    </SelectTrigger>
+                                  </FormControl>
+                                  <SelectContent>
+                                    {savedParticipants.map(({ id, name }) => (
+                                      <SelectItem key={id} value={id}>
+                                        {name}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        ))}
+                        <Button
+                          variant="ghost"
+                          className="text-destructive"
+                          onClick={() => removeSettlementPair(index)}
+                          type="button"
+                          size="icon"
+                          title={t('SettlementRestrictionField.removePair')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                  <Button
+                    variant="secondary"
+                    className="mt-2"
+                    onClick={() =>
+                      appendSettlementPair({ fromId: '', toId: '' })
+                    }
+                    type="button"
+                  >
+                    {t('SettlementRestrictionField.addPair')}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {group && (
+          <Card className="mb-4">
+            <CardHeader>
+              <CardTitle>{t('ExpenseDefaults.title')}</CardTitle>
+              <CardDescription>
+                {t('ExpenseDefaults.description')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="defaultSplitMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t('ExpenseDefaults.splitModeLabel')}
+                      </FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="EVENLY">
+                            {t('ExpenseDefaults.evenly')}
+                          </SelectItem>
+                          <SelectItem value="BY_SHARES">
+                            {t('ExpenseDefaults.byShares')}
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {t('ExpenseDefaults.splitModeDescription')}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="defaultPayerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t('ExpenseDefaults.payerLabel')}</FormLabel>
+                      <Select
+                        onValueChange={(value) =>
+                          field.onChange(
+                            value === NO_DEFAULT_PAYER ? null : value,
+                          )
+                        }
+                        value={field.value ?? NO_DEFAULT_PAYER}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_DEFAULT_PAYER}>
+                            {t('ExpenseDefaults.noPayer')}
+                          </SelectItem>
+                          {savedParticipants.map(({ id, name }) => (
+                            <SelectItem key={id} value={id}>
+                              {name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        {t('ExpenseDefaults.payerDescription')}
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="defaultCategoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {t('ExpenseDefaults.categoryLabel')}
+                      </FormLabel>
+                      <CategorySelector
+                        categories={categories ?? []}
+                        defaultValue={field.value}
+                        onValueChange={field.onChange}
+                        isLoading={!categories}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="mt-4">
+                <p className="text-sm font-medium mb-2">
+                  {t('ExpenseDefaults.participantsLabel')}
+                </p>
+                <div className="flex flex-col gap-2">
+                  {fields.map((item, index) => (
+                    <FormField
+                      key={item.key}
+                      control={form.control}
+                      name={`participants.${index}.inDefaultSplit`}
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row gap-2 items-center space-y-0">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value ?? true}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                          <FormLabel className="font-normal">
+                            {form.watch(`participants.${index}.name`) ||
+                              t('Participants.new')}
+                          </FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="mb-4">
           <CardHeader>
             <CardTitle>{t('Settings.title')}</CardTitle>
@@ -0,0 +1,27 @@
+import { PropsWithChildren } from 'react'
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+export function Mark({ children }: PropsWithChildren) {
+  return (
+    <mark className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded-sm">
+      {children}
+    </mark>
+  )
+}
+
+/** Displays a text with the occurrences of the search terms highlighted. */
+export function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  if (terms.length === 0) return <>{text}</>
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // Parts at odd indexes are the matches captured by the pattern
+        index % 2 === 1 ? <Mark key={index}>{part}</Mark> : part,
+      )}
+    </>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+import { AsyncButton } from '@/components/async-button'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Merge } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useState } from 'react'
+
+/**
+ * Merge of a participant added twice into another one. Unlike the other
+ * changes of the group form, the merge is applied as soon as it is confirmed.
+ */
+export function MergeParticipantDialog({
+  name,
+  otherParticipants,
+  onMerge,
+}: {
+  name: string
+  otherParticipants: { id: string; name: string }[]
+  onMerge: (toId: string) => Promise<void>
+}) {
+  const t = useTranslations('GroupForm.Participants.MergeDialog')
+  const [open, setOpen] = useState(false)
+  const [toId, setToId] = useState<string>()
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Button
+        variant="ghost"
+        onClick={() => {
+          setToId(undefined)
+          setOpen(true)
+        }}
+        type="button"
+        size="icon"
+        title={t('title', { name })}
+      >
+        <Merge className="w-4 h-4" />
+      </Button>
+      <DialogContent>
+        <DialogTitle>{t('title', { name })}</DialogTitle>
+        <DialogDescription>{t('description', { name })}</DialogDescription>
+        <div className="flex flex-col gap-2">
+          <Label>{t('participantLabel')}</Label>
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger>
+              <SelectValue placeholder={t('participantPlaceholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              {otherParticipants.map((participant) => (
+                <SelectItem key={participant.id} value={participant.id}>
+                  {participant.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter className="flex flex-col gap-2">
+          <AsyncButton
+            type="button"
+            disabled={!toId}
+            loadingContent={t('merging')}
+            action={async () => {
+              if (!toId) return
+              await onMerge(toId)
+              setOpen(false)
+            }}
+          >
+            {t('confirm')}
+          </AsyncButton>
+          <DialogClose asChild>
+            <Button variant="secondary">{t('cancel')}</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,231 @@
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { RecurrenceFormValues } from '@/lib/schemas'
+import { useLocale, useTranslations } from 'next-intl'
+import { UseFormReturn } from 'react-hook-form'
+
+/**
+ * Fields of the recurrence of an expense, for any form with a `recurrence`
+ * field. The rule is anchored on `anchorDate` (e.g. the date of the expense).
+ */
+export function RecurrenceFields<
+  T extends { recurrence: RecurrenceFormValues },
+>({
+  form: anyForm,
+  anchorDate,
+  description,
+}: {
+  form: UseFormReturn<T>
+  anchorDate: Date
+  description: string
+}) {
+  const form = anyForm as unknown as UseFormReturn<{
+    recurrence: RecurrenceFormValues
+  }>
+  const locale = useLocale()
+  const t = useTranslations('ExpenseForm.RecurrenceField')
+  const frequency = form.watch('recurrence.frequency')
+  const endMode = form.watch('recurrence.endMode')
+  const interval = form.watch('recurrence.interval')
+  const isValidDate = anchorDate && !isNaN(anchorDate.getTime())
+  const weekdayPosition = isValidDate
+    ? Math.ceil(anchorDate.getUTCDate() / 7)
+    : 1
+
+  return (
+    <div className="flex flex-col gap-4">
+      <FormField
+        control={form.control}
+        name="recurrence.frequency"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{t('label')}</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="NONE">{t('none')}</SelectItem>
+                <SelectItem value="DAILY">{t('daily')}</SelectItem>
+                <SelectItem value="WEEKLY">{t('weekly')}</SelectItem>
+                <SelectItem value="MONTHLY">{t('monthly')}</SelectItem>
+                <SelectItem value="YEARLY">{t('yearly')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormDescription>{description}</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {frequency !== 'NONE' && (
+        <>
+          <FormField
+            control={form.control}
+            name="recurrence.interval"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('interval')}</FormLabel>
+                <div className="flex items-baseline gap-2">
+                  <FormControl>
+                    <Input
+                      className="text-base w-20"
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      step={1}
+                      {...field}
+                    />
+                  </FormControl>
+                  <span className="text-sm">
+                    {t(`units.${frequency}`, {
+                      count: Number(interval) || 1,
+                    })}
+                  </span>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {frequency === 'MONTHLY' && (
+            <FormField
+              control={form.control}
+              name="recurrence.monthlyMode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('monthlyMode')}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="DAY_OF_MONTH">
+                        {t('dayOfMonth', {
+                          day: isValidDate ? anchorDate.getUTCDate() : 1,
+                        })}
+                      </SelectItem>
+                      <SelectItem value="LAST_DAY_OF_MONTH">
+                        {t('lastDayOfMonth')}
+                      </SelectItem>
+                      <SelectItem value="WEEKDAY_OF_MONTH">
+                        {t('weekdayOfMonth', {
+                          position: weekdayPosition > 4 ? -1 : weekdayPosition,
+                          weekday: (isValidDate
+                            ? anchorDate
+                            : new Date()
+                          ).toLocaleDateString(locale, {
+                            weekday: 'long',
+                            timeZone: 'UTC',
+                          }),
+                        })}
+                      </SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <FormField
+            control={form.control}
+            name="recurrence.endMode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t('endMode')}</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="NEVER">{t('never')}</SelectItem>
+                    <SelectItem value="UNTIL">{t('until')}</SelectItem>
+                    <SelectItem value="COUNT">{t('count')}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {endMode === 'UNTIL' && (
+            <FormField
+              control={form.control}
+              name="recurrence.until"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('untilLabel')}</FormLabel>
+                  <FormControl>
+                    <Input
+                      className="date-base"
+                      type="date"
+                      defaultValue={
+                        field.value
+                          ? field.value.toISOString().substring(0, 10)
+                          : undefined
+                      }
+                      onChange={(event) =>
+                        field.onChange(
+                          event.target.value
+                            ? new Date(event.target.value)
+                            : null,
+                        )
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          {endMode === 'COUNT' && (
+            <FormField
+              control={form.control}
+              name="recurrence.count"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('countLabel')}</FormLabel>
+                  <FormControl>
+                    <Input
+                      className="text-base w-20"
+                      type="number"
+                      inputMode="numeric"
+                      min={2}
+                      step={1}
+                      {...field}
+                      value={field.value ?? ''}
+                    />
+                  </FormControl>
+                  <FormDescription>{t('countDescription')}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
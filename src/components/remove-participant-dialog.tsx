@@ -0,0 +1,94 @@
+'use client'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Trash2 } from 'lucide-react'
+import { useTranslations } from 'next-intl'
+import { useState } from 'react'
+
+const ARCHIVE = 'archive'
+
+/**
+ * Removal of a participant who is part of expenses: they are either archived
+ * with their expenses, or their expenses are moved to another participant.
+ */
+export function RemoveParticipantDialog({
+  name,
+  otherParticipants,
+  onRemove,
+}: {
+  name: string
+  otherParticipants: { id: string; name: string }[]
+  onRemove: (reassignToId: string | null) => void
+}) {
+  const t = useTranslations('GroupForm.Participants.RemoveDialog')
+  const [open, setOpen] = useState(false)
+  const [reassignToId, setReassignToId] = useState(ARCHIVE)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <Button
+        variant="ghost"
+        className="text-destructive"
+        onClick={() => {
+          setReassignToId(ARCHIVE)
+          setOpen(true)
+        }}
+        type="button"
+        size="icon"
+        title={t('title', { name })}
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+      <DialogContent>
+        <DialogTitle>{t('title', { name })}</DialogTitle>
+        <DialogDescription>{t('description', { name })}</DialogDescription>
+        <div className="flex flex-col gap-2">
+          <Label>{t('expensesLabel')}</Label>
+          <Select value={reassignToId} onValueChange={setReassignToId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ARCHIVE}>{t('archive', { name })}</SelectItem>
+              {otherParticipants.map((participant) => (
+                <SelectItem key={participant.id} value={participant.id}>
+                  {t('reassign', { name: participant.name })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <DialogFooter className="flex flex-col gap-2">
+          <Button
+            type="button"
+            variant="destructive"
+            onClick={() => {
+              onRemove(reassignToId === ARCHIVE ? null : reassignToId)
+              setOpen(false)
+            }}
+          >
+            {t('confirm')}
+          </Button>
+          <DialogClose asChild>
+            <Button variant="secondary">{t('cancel')}</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
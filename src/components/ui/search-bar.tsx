@@ -11,7 +11,7 @@ export interface InputProps
 }
 
 const SearchBar = React.forwardRef<HTMLInputElement, InputProps>(
-  ({ className, type, onValueChange, ...props }, ref) => {
+  ({ className, type, onValueChange, children, ...props }, ref) => {
     const t = useTranslations('Expenses')
     const [value, _setValue] = React.useState('')
 
@@ -21,27 +21,30 @@ const SearchBar = React.forwardRef<HTMLInputElement, InputProps>(
     }
 
     return (
-      <div className="mx-4 sm:mx-6 flex relative">
-        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-        <Input
-          type={type}
-          className={cn(
-            'pl-10 text-sm focus:text-base bg-muted border-none text-muted-foreground',
-            className,
-          )}
-          ref={ref}
-          placeholder={t("searchPlaceholder")}
-          value={value}
-          onChange={(e) => setValue(e.target.value)}
-          {...props}
-        />
-        <XCircle
-          className={cn(
-            'absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 cursor-pointer',
-            !value && 'hidden',
-          )}
-          onClick={() => setValue('')}
-        />
+      <div className="mx-4 sm:mx-6 flex gap-2">
+        <div className="flex-1 flex relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            type={type}
+            className={cn(
+              'pl-10 text-sm focus:text-base bg-muted border-none text-muted-foreground',
+              className,
+            )}
+            ref={ref}
+            placeholder={t("searchPlaceholder")}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            {...props}
+          />
+          <XCircle
+            className={cn(
+              'absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 cursor-pointer',
+              !value && 'hidden',
+            )}
+            onClick={() => setValue('')}
+          />
+        </div>
+        {children}
       </div>
     )
   },
@@ -0,0 +1,195 @@
+import { ActivityType, Participant } from '@prisma/client'
+import { getGroupUpdateActivities } from './activities'
+import { GroupFormValues } from './schemas'
+
+function participant(id: string, name: string): Participant {
+  return {
+    id,
+    name,
+    groupId: 'g1',
+    iban: null,
+    paypalMe: null,
+    venmo: null,
+    revolut: null,
+    upi: null,
+    paymentNote: null,
+    defaultShares: 100,
+    inDefaultSplit: true,
+    archivedAt: null,
+  }
+}
+
+const existingGroup = {
+  id: 'g1',
+  name: 'Trip',
+  information: 'Summer trip',
+  currency: '€',
+  currencyCode: 'EUR',
+  settlementAlgorithm: 'GREEDY' as const,
+  settlementRestriction: 'NONE' as const,
+  treasurerId: null,
+  defaultSplitMode: 'EVENLY' as const,
+  defaultCategoryId: 0,
+  defaultPayerId: null,
+  createdAt: new Date(),
+  participants: [participant('p1', 'John'), participant('p2', 'Jane')],
+  settlementPairs: [],
+}
+
+const groupFormValues: GroupFormValues = {
+  name: 'Trip',
+  information: 'Summer trip',
+  currency: '€',
+  currencyCode: 'EUR',
+  settlementAlgorithm: 'GREEDY',
+  settlementRestriction: 'NONE',
+  settlementPairs: [],
+  defaultSplitMode: 'EVENLY',
+  defaultCategoryId: 0,
+  participants: [
+    { id: 'p1', name: 'John' },
+    { id: 'p2', name: 'Jane' },
+  ],
+  reassignedParticipants: [],
+}
+
+describe('getGroupUpdateActivities', () => {
+  it('logs an update of the group when nothing changed', () => {
+    expect(getGroupUpdateActivities(existingGroup, groupFormValues)).toEqual([
+      { activityType: ActivityType.UPDATE_GROUP },
+    ])
+  })
+
+  it('logs the participants added, renamed and removed', () => {
+    expect(
+      getGroupUpdateActivities(existingGroup, {
+        ...groupFormValues,
+        participants: [
+          { id: 'p1', name: 'Johnny' },
+          { id: 'p3', name: 'Jack' },
+        ],
+      }),
+    ).toEqual([
+      {
+        activityType: ActivityType.RENAME_PARTICIPANT,
+        data: 'Johnny',
+        details: { participantId: 'p1', previousName: 'John', name: 'Johnny' },
+      },
+      {
+        activityType: ActivityType.REMOVE_PARTICIPANT,
+        data: 'Jane',
+        details: { participantId: 'p2', name: 'Jane', archived: false },
+      },
+      {
+        activityType: ActivityType.ADD_PARTICIPANT,
+        data: 'Jack',
+        details: { participantId: 'p3', name: 'Jack' },
+      },
+    ])
+  })
+
+  it('logs how removed participants part of expenses were handled', () => {
+    expect(
+      getGroupUpdateActivities(
+        {
+          ...existingGroup,
+          participants: [
+            ...existingGroup.participants,
+            participant('p3', 'Jack'),
+          ],
+        },
+        {
+          ...groupFormValues,
+          participants: [{ id: 'p1', name: 'John' }],
+          reassignedParticipants: [{ fromId: 'p3', toId: 'p1' }],
+        },
+        ['p2'],
+      ).map(({ details }) => details),
+    ).toEqual([
+      { participantId: 'p2', name: 'Jane', archived: true },
+      {
+        participantId: 'p3',
+        name: 'Jack',
+        archived: false,
+        reassignedToId: 'p1',
+      },
+    ])
+  })
+
+  it('ignores the archived participants', () => {
+    expect(
+      getGroupUpdateActivities(
+        {
+          ...existingGroup,
+          participants: [
+            ...existingGroup.participants,
+            { ...participant('p3', 'Jack'), archivedAt: new Date() },
+          ],
+        },
+        groupFormValues,
+      ),
+    ).toEqual([{ activityType: ActivityType.UPDATE_GROUP }])
+  })
+
+  it('logs the currency and information changes', () => {
+    expect(
+      getGroupUpdateActivities(existingGroup, {
+        ...groupFormValues,
+        currency: '$',
+        currencyCode: 'USD',
+        information: '',
+      }),
+    ).toEqual([
+      {
+        activityType: ActivityType.CHANGE_CURRENCY,
+        data: 'USD',
+        details: { previousCurrency: 'EUR', currency: 'USD' },
+      },
+      { activityType: ActivityType.UPDATE_GROUP_INFORMATION },
+    ])
+  })
+
+  it('logs other changes as an update of the group', () => {
+    expect(
+      getGroupUpdateActivities(existingGroup, {
+        ...groupFormValues,
+        name: 'Summer trip',
+        participants: [
+          { id: 'p1', name: 'John', paypalMe: 'john' },
+          { id: 'p2', name: 'Jane' },
+        ],
+      }),
+    ).toEqual([{ activityType: ActivityType.UPDATE_GROUP }])
+  })
+
+  it('logs a change of default weight as an update of the group', () => {
+    expect(
+      getGroupUpdateActivities(existingGroup, {
+        ...groupFormValues,
+        participants: [
+          { id: 'p1', name: 'John', defaultShares: 2 },
+          { id: 'p2', name: 'Jane', defaultShares: 1 },
+        ],
+      }),
+    ).toEqual([{ activityType: ActivityType.UPDATE_GROUP }])
+  })
+
+  it('logs a change of the defaults of new expenses as an update of the group', () => {
+    expect(
+      getGroupUpdateActivities(existingGroup, {
+        ...groupFormValues,
+        defaultSplitMode: 'BY_SHARES',
+        defaultPayerId: 'p2',
+      }),
+    ).toEqual([{ activityType: ActivityType.UPDATE_GROUP }])
+    expect(
+      getGroupUpdateActivities(existingGroup, {
+        ...groupFormValues,
+        participants: [
+          { id: 'p1', name: 'John' },
+          { id: 'p2', name: 'Jane', inDefaultSplit: false },
+        ],
+      }),
+    ).toEqual([{ activityType: ActivityType.UPDATE_GROUP }])
+  })
+})
@@ -0,0 +1,155 @@
+import { getParticipantDefaultShares } from '@/lib/participants'
+import { normalizePaymentDetails } from '@/lib/payments'
+import type { GroupFormValues } from '@/lib/schemas'
+import {
+  ActivityType,
+  Group,
+  Participant,
+  Prisma,
+  SettlementPair,
+} from '@prisma/client'
+import type { z } from 'zod'
+
+export type GroupActivity = {
+  activityType: ActivityType
+  data?: string
+  details?: Prisma.InputJsonValue
+}
+
+function getCurrencyLabel(group: {
+  currency: string
+  currencyCode?: string | null
+}) {
+  return group.currencyCode || group.currency
+}
+
+function getSettlementPairKeys(
+  pairs: Pick<SettlementPair, 'fromId' | 'toId'>[],
+) {
+  return pairs.map(({ fromId, toId }) => `${fromId}>${toId}`).sort()
+}
+
+/**
+ * Activities logged when the settings of a group are updated, one for each
+ * participant added, renamed or removed, the currency and the information.
+ * The IDs of the new participants are recorded when set in the form values.
+ * Archived participants are not part of the group anymore, adding them back
+ * is logged as adding a participant. Other changes are logged as a single
+ * `UPDATE_GROUP` activity, which is also logged when nothing changed so that
+ * every update appears in the log.
+ */
+export function getGroupUpdateActivities(
+  existingGroup: Group & {
+    participants: Participant[]
+    settlementPairs: SettlementPair[]
+  },
+  groupFormValues: GroupFormValues,
+  archivedParticipantIds: string[] = [],
+): GroupActivity[] {
+  const activities: GroupActivity[] = []
+  const participants = existingGroup.participants.filter(
+    ({ archivedAt }) => archivedAt === null,
+  )
+
+  for (const participant of participants) {
+    const formParticipant = groupFormValues.participants.find(
+      ({ id }) => id === participant.id,
+    )
+    if (!formParticipant) {
+      activities.push({
+        activityType: ActivityType.REMOVE_PARTICIPANT,
+        data: participant.name,
+        details: {
+          participantId: participant.id,
+          name: participant.name,
+          archived: archivedParticipantIds.includes(participant.id),
+          reassignedToId: groupFormValues.reassignedParticipants.find(
+            ({ fromId }) => fromId === participant.id,
+          )?.toId,
+        },
+      })
+    } else if (formParticipant.name !== participant.name) {
+      activities.push({
+        activityType: ActivityType.RENAME_PARTICIPANT,
+        data: formParticipant.name,
+        details: {
+          participantId: participant.id,
+          previousName: participant.name,
+          name: formParticipant.name,
+        },
+      })
+    }
+  }
+
+  for (const participant of groupFormValues.participants) {
+    if (!participants.some(({ id }) => id === participant.id)) {
+      activities.push({
+        activityType: ActivityType.ADD_PARTICIPANT,
+        data: participant.name,
+        details: participant.id
+          ? { participantId: participant.id, name: participant.name }
+          : undefined,
+      })
+    }
+  }
+
+  const previousCurrency = getCurrencyLabel(existingGroup)
+  const currency = getCurrencyLabel(groupFormValues)
+  if (previousCurrency !== currency) {
+    activities.push({
+      activityType: ActivityType.CHANGE_CURRENCY,
+      data: currency,
+      details: { previousCurrency, currency },
+    })
+  }
+
+  if ((existingGroup.information ?? '') !== (groupFormValues.information ?? ''))
+    activities.push({ activityType: ActivityType.UPDATE_GROUP_INFORMATION })
+
+  const isOtherSettingChanged =
+    existingGroup.name !== groupFormValues.name ||
+    existingGroup.settlementAlgorithm !== groupFormValues.settlementAlgorithm ||
+    existingGroup.settlementRestriction !==
+      groupFormValues.settlementRestriction ||
+    (existingGroup.treasurerId ?? null) !==
+      (groupFormValues.settlementRestriction === 'TREASURER'
+        ? groupFormValues.treasurerId ?? null
+        : null) ||
+    getSettlementPairKeys(existingGroup.settlementPairs).join() !==
+      getSettlementPairKeys(groupFormValues.settlementPairs).join() ||
+    existingGroup.defaultSplitMode !== groupFormValues.defaultSplitMode ||
+    existingGroup.defaultCategoryId !== groupFormValues.defaultCategoryId ||
+    (existingGroup.defaultPayerId ?? null) !==
+      (groupFormValues.defaultPayerId ?? null) ||
+    participants.some((participant) => {
+      const formParticipant = groupFormValues.participants.find(
+        ({ id }) => id === participant.id,
+      )
+      return (
+        formParticipant &&
+        (JSON.stringify(normalizePaymentDetails(formParticipant)) !==
+          JSON.stringify(normalizePaymentDetails(participant)) ||
+          getParticipantDefaultShares(formParticipant.defaultShares) !==
+            participant.defaultShares ||
+          (formParticipant.inDefaultSplit ?? true) !==
+            participant.inDefaultSplit)
+      )
+    })
+
+  if (isOtherSettingChanged || activities.length === 0)
+    activities.push({ activityType: ActivityType.UPDATE_GROUP })
+
+  return activities
+}
+
+/**
+ * Reads the details stored with an activity, or returns null for activities
+ * logged before their details were recorded.
+ */
+export function parseActivityDetails<T extends z.ZodTypeAny>(
+  schema: T,
+  details: unknown,
+): z.infer<T> | null {
+  const result = schema.safeParse(details)
+  return result.success ? result.data : null
+}
@@ -0,0 +1,16 @@
+import { env } from '@/lib/env'
+import { timingSafeEqual } from 'crypto'
+
+/**
+ * Checks that a request to an admin route is authorized with
+ * `Authorization: Bearer <ADMIN_API_SECRET>`.
+ */
+export function isAuthorizedAdminRequest(req: Request) {
+  if (!env.ADMIN_API_SECRET) return false
+  const [scheme, token] = req.headers.get('Authorization')?.split(' ') ?? []
+  if (scheme !== 'Bearer' || !token) return false
+
+  const expected = Buffer.from(env.ADMIN_API_SECRET)
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
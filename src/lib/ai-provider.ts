@@ -0,0 +1,34 @@
+import { AIProvider, createOpenAIProvider } from '@/lib/ai'
+import { env } from '@/lib/env'
+
+let provider: AIProvider | null | undefined
+
+/**
+ * Returns the AI provider configured with the AI_* environment variables,
+ * or null if AI features are disabled.
+ */
+export function getAIProvider(): AIProvider | null {
+  if (provider !== undefined) return provider
+
+  const providerName =
+    env.AI_PROVIDER ?? (env.OPENAI_API_KEY ? 'openai' : 'disabled')
+  provider =
+    providerName === 'disabled'
+      ? null
+      : createOpenAIProvider({
+          apiKey: env.AI_API_KEY ?? env.OPENAI_API_KEY,
+          baseURL:
+            providerName === 'openai-compatible' ? env.AI_BASE_URL : undefined,
+          models: {
+            receipt: env.AI_RECEIPT_MODEL,
+            category: env.AI_CATEGORY_MODEL,
+          },
+        })
+  return provider
+}
+
+export function getRequiredAIProvider(): AIProvider {
+  const provider = getAIProvider()
+  if (!provider) throw new Error('AI features are disabled (AI_PROVIDER)')
+  return provider
+}
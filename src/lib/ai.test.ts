@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+import { Category } from '@prisma/client'
+import {
+  createFakeAIProvider,
+  extractCategory,
+  extractReceiptInformation,
+} from './ai'
+
+const categories: Category[] = [
+  { id: 0, grouping: 'Uncategorized', name: 'General' },
+  { id: 8, grouping: 'Food and Drink', name: 'Groceries' },
+]
+
+describe('extractReceiptInformation', () => {
+  it('parses the receipt returned by the provider', async () => {
+    const provider = createFakeAIProvider((task, request) => {
+      expect(task).toBe('receipt')
+      expect(request.json).toBe(true)
+      return JSON.stringify({
+        merchant: 'Corner Shop',
+        title: null,
+        categoryId: '8',
+        date: '2026-10-18',
+        currency: 'EUR',
+        total: 12.5,
+        tax: null,
+        tip: 1,
+        items: [
+          { label: 'Bread', amount: 3.5 },
+          { label: 'Cheese', amount: 8 },
+        ],
+      })
+    })
+
+    expect(
+      await extractReceiptInformation(provider, 'https://receipt', categories),
+    ).toEqual({
+      amount: 12.5,
+      categoryId: 8,
+      date: '2026-10-18',
+      title: 'Corner Shop',
+      merchant: 'Corner Shop',
+      currency: 'EUR',
+      tax: null,
+      tip: 1,
+      items: [
+        { label: 'Bread', amount: 3.5 },
+        { label: 'Cheese', amount: 8 },
+      ],
+    })
+  })
+
+  it('ignores unknown categories', async () => {
+    const provider = createFakeAIProvider(() =>
+      JSON.stringify({ total: 5, categoryId: 42 }),
+    )
+    const info = await extractReceiptInformation(
+      provider,
+      'https://receipt',
+      categories,
+    )
+    expect(info.amount).toBe(5)
+    expect(info.categoryId).toBeNull()
+  })
+
+  it('fails when the provider returns nothing', async () => {
+    const provider = createFakeAIProvider(() => null)
+    await expect(
+      extractReceiptInformation(provider, 'https://receipt', categories),
+    ).rejects.toThrow()
+  })
+})
+
+describe('extractCategory', () => {
+  it('returns the category chosen by the provider', async () => {
+    const provider = createFakeAIProvider((task) => {
+      expect(task).toBe('category')
+      return '8'
+    })
+    expect(await extractCategory(provider, 'Groceries', categories)).toEqual({
+      categoryId: 8,
+    })
+  })
+
+  it('falls back to the first category', async () => {
+    const provider = createFakeAIProvider(() => 'nope')
+    expect(await extractCategory(provider, 'Groceries', categories)).toEqual({
+      categoryId: 0,
+    })
+  })
+})
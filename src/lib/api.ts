@@ -1,9 +1,36 @@
+import { getGroupUpdateActivities } from '@/lib/activities'
+import {
+  getExpenseFiltersWhere,
+  getExpenseSearchWhere,
+} from '@/lib/expense-filters'
+import {
+  getExpenseFormValuesFromSnapshot,
+  getExpenseSnapshot,
+  parseExpenseRevision,
+} from '@/lib/expense-revisions'
+import {
+  getMergedGroupSettings,
+  getParticipantDefaultShares,
+  getReassignedExpenseSplit,
+} from '@/lib/participants'
+import { normalizePaymentDetails } from '@/lib/payments'
 import { prisma } from '@/lib/prisma'
-import { ExpenseFormValues, GroupFormValues } from '@/lib/schemas'
+import {
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getRecurrenceRuleFromForm,
+} from '@/lib/recurrence'
+import {
+  BulkExpenseChanges,
+  ExpenseFilters,
+  ExpenseFormValues,
+  GroupFormValues,
+} from '@/lib/schemas'
+import { getCurrencyFromGroup } from '@/lib/utils'
 import {
   ActivityType,
   Expense,
-  RecurrenceRule,
+  Prisma,
   RecurringExpenseLink,
 } from '@prisma/client'
 import { nanoid } from 'nanoid'
@@ -20,11 +47,17 @@ export async function createGroup(groupFormValues: GroupFormValues) {
       information: groupFormValues.information,
       currency: groupFormValues.currency,
       currencyCode: groupFormValues.currencyCode,
+      settlementAlgorithm: groupFormValues.settlementAlgorithm,
       participants: {
         createMany: {
-          data: groupFormValues.participants.map(({ name }) => ({
+          data: groupFormValues.participants.map((participant) => ({
             id: randomId(),
-            name,
+            name: participant.name,
+            ...normalizePaymentDetails(participant),
+            defaultShares: getParticipantDefaultShares(
+              participant.defaultShares,
+            ),
+            inDefaultSplit: participant.inDefaultSplit ?? true,
           })),
         },
       },
@@ -43,26 +76,49 @@ export async function createExpense(
 
   for (const participant of [
     expenseFormValues.paidBy,
+    ...expenseFormValues.payers.map((p) => p.participant),
     ...expenseFormValues.paidFor.map((p) => p.participant),
+    ...expenseFormValues.items.flatMap((item) => item.participants),
   ]) {
     if (!group.participants.some((p) => p.id === participant))
       throw new Error(`Invalid participant ID: ${participant}`)
   }
 
   const expenseId = randomId()
-  await logActivity(groupId, ActivityType.CREATE_EXPENSE, {
-    participantId,
-    expenseId,
-    data: expenseFormValues.title,
-  })
+  const reimbursedParticipant =
+    expenseFormValues.isReimbursement && expenseFormValues.paidFor.length === 1
+      ? expenseFormValues.paidFor[0].participant
+      : null
+  await logActivity(
+    groupId,
+    expenseFormValues.isReimbursement
+      ? ActivityType.CREATE_REIMBURSEMENT
+      : ActivityType.CREATE_EXPENSE,
+    {
+      participantId,
+      expenseId,
+      data: expenseFormValues.title,
+      details: reimbursedParticipant
+        ? {
+            fromId: expenseFormValues.paidBy,
+            toId: reimbursedParticipant,
+            amount: expenseFormValues.amount,
+          }
+        : undefined,
+    },
+  )
 
-  const isCreateRecurrence =
-    expenseFormValues.recurrenceRule !== RecurrenceRule.NONE
-  const recurringExpenseLinkPayload = createPayloadForNewRecurringExpenseLink(
-    expenseFormValues.recurrenceRule as RecurrenceRule,
+  const rule = getRecurrenceRuleFromForm(
+    expenseFormValues.recurrence,
     expenseFormValues.expenseDate,
-    groupId,
   )
+  const nextExpenseDate = rule
+    ? getNextOccurrence(
+        rule,
+        expenseFormValues.expenseDate,
+        expenseFormValues.expenseDate,
+      )
+    : null
 
   return prisma.expense.create({
     data: {
@@ -76,12 +132,25 @@ export async function createExpense(
       conversionRate: expenseFormValues.conversionRate,
       title: expenseFormValues.title,
       paidById: expenseFormValues.paidBy,
+      payersSplitMode: expenseFormValues.payersSplitMode,
+      payers: {
+        createMany: {
+          data: expenseFormValues.payers.map((payer) => ({
+            participantId: payer.participant,
+            shares: payer.shares,
+          })),
+        },
+      },
       splitMode: expenseFormValues.splitMode,
-      recurrenceRule: expenseFormValues.recurrenceRule,
+      recurrenceRule: rule && formatRecurrenceRule(rule),
+      recurrenceStartDate: rule ? expenseFormValues.expenseDate : null,
       recurringExpenseLink: {
-        ...(isCreateRecurrence
+        ...(nextExpenseDate
           ? {
-              create: recurringExpenseLinkPayload,
+              create: createPayloadForNewRecurringExpenseLink(
+                nextExpenseDate,
+                groupId,
+              ),
             }
           : {}),
       },
@@ -93,6 +162,21 @@ export async function createExpense(
           })),
         },
       },
+      items: {
+        create: expenseFormValues.items.map((item, position) => ({
+          id: randomId(),
+          position,
+          label: item.label,
+          amount: item.amount,
+          participants: {
+            createMany: {
+              data: item.participants.map((participantId) => ({
+                participantId,
+              })),
+            },
+          },
+        })),
+      },
       isReimbursement: expenseFormValues.isReimbursement,
       documents: {
         createMany: {
@@ -101,6 +185,9 @@ export async function createExpense(
             url: doc.url,
             width: doc.width,
             height: doc.height,
+            contentType: doc.contentType,
+            name: doc.name,
+            thumbnailUrl: doc.thumbnailUrl,
           })),
         },
       },
@@ -109,6 +196,52 @@ export async function createExpense(
   })
 }
 
+/**
+ * Records that a participant paid back (part of) what they owe to another one,
+ * as a reimbursement expense.
+ */
+export async function createReimbursement(
+  groupId: string,
+  {
+    from,
+    to,
+    amount,
+    title,
+  }: { from: string; to: string; amount: number; title: string },
+  participantId?: string,
+) {
+  const group = await getGroup(groupId)
+  if (!group) throw new Error(`Invalid group ID: ${groupId}`)
+  for (const participant of [from, to]) {
+    if (!group.participants.some((p) => p.id === participant))
+      throw new Error(`Invalid participant ID: ${participant}`)
+  }
+  if (from === to) throw new Error('A participant cannot reimburse themself')
+
+  const expenseId = randomId()
+  await logActivity(groupId, ActivityType.CREATE_REIMBURSEMENT, {
+    participantId,
+    expenseId,
+    data: title,
+    details: { fromId: from, toId: to, amount },
+  })
+
+  return prisma.expense.create({
+    data: {
+      id: expenseId,
+      groupId,
+      expenseDate: new Date(),
+      title,
+      categoryId: 1, // category with Id 1 is Payment
+      amount,
+      paidById: from,
+      paidFor: { create: { participantId: to, shares: 1 } },
+      splitMode: 'EVENLY',
+      isReimbursement: true,
+    },
+  })
+}
+
 export async function deleteExpense(
   groupId: string,
   expenseId: string,
@@ -121,22 +254,211 @@ export async function deleteExpense(
     data: existingExpense?.title,
   })
 
-  await prisma.expense.delete({
-    where: { id: expenseId },
-    include: { paidFor: true, paidBy: true },
+  // Expenses are moved to the trash, they can be restored until purged
+  await prisma.expense.update({
+    where: { id: expenseId, groupId, deletedAt: null },
+    data: { deletedAt: new Date() },
+  })
+}
+
+/** Relations of an expense recorded in its revisions. */
+const expenseSplitInclude = {
+  payers: true,
+  paidFor: true,
+  items: { include: { participants: true } },
+} satisfies Prisma.ExpenseInclude
+
+/**
+ * Expenses of the group with the given IDs, throws if one of them does not
+ * belong to the group.
+ */
+async function getGroupExpensesByIds(groupId: string, expenseIds: string[]) {
+  const expenses = await prisma.expense.findMany({
+    where: { groupId, id: { in: expenseIds }, deletedAt: null },
+    include: expenseSplitInclude,
   })
+  for (const expenseId of expenseIds) {
+    if (!expenses.some((expense) => expense.id === expenseId))
+      throw new Error(`Invalid expense ID: ${expenseId}`)
+  }
+  return expenses
+}
+
+/**
+ * Moves several expenses to the trash at once, in a single transaction.
+ */
+export async function deleteExpenses(
+  groupId: string,
+  expenseIds: string[],
+  participantId?: string,
+) {
+  const expenses = await getGroupExpensesByIds(groupId, expenseIds)
+
+  await prisma.$transaction([
+    prisma.activity.createMany({
+      data: expenses.map((expense) => ({
+        id: randomId(),
+        groupId,
+        activityType: ActivityType.DELETE_EXPENSE,
+        participantId,
+        expenseId: expense.id,
+        data: expense.title,
+      })),
+    }),
+    prisma.expense.updateMany({
+      where: { groupId, id: { in: expenseIds } },
+      data: { deletedAt: new Date() },
+    }),
+  ])
 }
 
+/**
+ * Applies the same changes to several expenses at once, in a single
+ * transaction. Changing the participants of the expenses splits them evenly.
+ */
+export async function updateExpenses(
+  groupId: string,
+  expenseIds: string[],
+  changes: BulkExpenseChanges,
+  participantId?: string,
+) {
+  const group = await getGroup(groupId)
+  if (!group) throw new Error(`Invalid group ID: ${groupId}`)
+
+  for (const participant of [
+    ...(changes.paidBy ? [changes.paidBy] : []),
+    ...(changes.paidFor ?? []),
+  ]) {
+    if (!group.participants.some((p) => p.id === participant))
+      throw new Error(`Invalid participant ID: ${participant}`)
+  }
+
+  const expenses = await getGroupExpensesByIds(groupId, expenseIds)
+
+  await prisma.$transaction(async (transaction) => {
+    const activities: Prisma.ActivityCreateManyInput[] = []
+    for (const expense of expenses) {
+      const updatedExpense = await transaction.expense.update({
+        where: { id: expense.id },
+        data: {
+          categoryId: changes.category,
+          expenseDate: changes.expenseDate,
+          ...(changes.paidBy
+            ? {
+                paidById: changes.paidBy,
+                payersSplitMode: 'EVENLY',
+                payers: { deleteMany: {} },
+              }
+            : {}),
+          ...(changes.paidFor
+            ? {
+                splitMode: 'EVENLY',
+                paidFor: {
+                  deleteMany: {},
+                  create: changes.paidFor.map((participantId) => ({
+                    participantId,
+                    shares: 1,
+                  })),
+                },
+                items: { deleteMany: {} },
+              }
+            : {}),
+        },
+        include: expenseSplitInclude,
+      })
+      activities.push({
+        id: randomId(),
+        groupId,
+        activityType: ActivityType.UPDATE_EXPENSE,
+        participantId,
+        expenseId: expense.id,
+        data: expense.title,
+        details: {
+          before: getExpenseSnapshot(expense),
+          after: getExpenseSnapshot(updatedExpense),
+        },
+      })
+    }
+    await transaction.activity.createMany({ data: activities })
+  })
+}
+
+/**
+ * IDs of the participants part of expenses of the group, including deleted
+ * expenses as they can be restored. They cannot be deleted from the group.
+ */
 export async function getGroupExpensesParticipants(groupId: string) {
-  const expenses = await getGroupExpenses(groupId)
-  return Array.from(
-    new Set(
-      expenses.flatMap((e) => [
-        e.paidBy.id,
-        ...e.paidFor.map((pf) => pf.participant.id),
-      ]),
-    ),
-  )
+  const participants = await prisma.participant.findMany({
+    where: {
+      groupId,
+      OR: [
+        { expensesPaidBy: { some: {} } },
+        { expensePayments: { some: {} } },
+        { expensesPaidFor: { some: {} } },
+        { expenseItems: { some: {} } },
+      ],
+    },
+    select: { id: true },
+  })
+  return participants.map(({ id }) => id)
+}
+
+/**
+ * Moves the expenses of a participant to another one, including deleted
+ * expenses, so that the participant can be deleted without changing the
+ * balances. Shares are summed when both are part of the same split.
+ */
+export async function reassignParticipantExpenses(
+  transaction: Prisma.TransactionClient,
+  groupId: string,
+  fromId: string,
+  toId: string,
+) {
+  const expenses = await transaction.expense.findMany({
+    where: {
+      groupId,
+      OR: [
+        { paidById: fromId },
+        { payers: { some: { participantId: fromId } } },
+        { paidFor: { some: { participantId: fromId } } },
+        {
+          items: {
+            some: { participants: { some: { participantId: fromId } } },
+          },
+        },
+      ],
+    },
+    include: expenseSplitInclude,
+  })
+
+  for (const expense of expenses) {
+    const split = getReassignedExpenseSplit(expense, fromId, toId)
+    await transaction.expense.update({
+      where: { id: expense.id },
+      data: {
+        paidById: split.paidById,
+        payersSplitMode: split.payersSplitMode,
+        payers: { deleteMany: {}, createMany: { data: split.payers } },
+        splitMode: split.splitMode,
+        paidFor: { deleteMany: {}, createMany: { data: split.paidFor } },
+        items: {
+          update: split.items.map(({ id, participantIds }) => ({
+            where: { id },
+            data: {
+              participants: {
+                deleteMany: {},
+                createMany: {
+                  data: participantIds.map((participantId) => ({
+                    participantId,
+                  })),
+                },
+              },
+            },
+          })),
+        },
+      },
+    })
+  }
 }
 
 export async function getGroups(groupIds: string[]) {
@@ -165,46 +487,60 @@ export async function updateExpense(
 
   for (const participant of [
     expenseFormValues.paidBy,
+    ...expenseFormValues.payers.map((p) => p.participant),
     ...expenseFormValues.paidFor.map((p) => p.participant),
+    ...expenseFormValues.items.flatMap((item) => item.participants),
   ]) {
     if (!group.participants.some((p) => p.id === participant))
       throw new Error(`Invalid participant ID: ${participant}`)
   }
 
-  await logActivity(groupId, ActivityType.UPDATE_EXPENSE, {
-    participantId,
-    expenseId,
-    data: expenseFormValues.title,
-  })
+  // Keep the series of the expense unless its recurrence or date changed, so
+  // that editing an expense created by the series does not move the next ones
+  const existingRecurrenceStartDate =
+    existingExpense.recurrenceStartDate ?? existingExpense.expenseDate
+  const existingSeriesRule = getRecurrenceRuleFromForm(
+    expenseFormValues.recurrence,
+    existingRecurrenceStartDate,
+  )
+  const isSameSeries =
+    existingSeriesRule !== null &&
+    formatRecurrenceRule(existingSeriesRule) ===
+      existingExpense.recurrenceRule &&
+    expenseFormValues.expenseDate.getTime() ===
+      existingExpense.expenseDate.getTime()
+  const rule = isSameSeries
+    ? existingSeriesRule
+    : getRecurrenceRuleFromForm(
+        expenseFormValues.recurrence,
+        expenseFormValues.expenseDate,
+      )
+  const recurrenceStartDate = isSameSeries
+    ? existingRecurrenceStartDate
+    : rule
+    ? expenseFormValues.expenseDate
+    : null
+  const nextExpenseDate =
+    rule && recurrenceStartDate
+      ? getNextOccurrence(
+          rule,
+          recurrenceStartDate,
+          expenseFormValues.expenseDate,
+        )
+      : null
 
-  const isDeleteRecurrenceExpenseLink =
-    existingExpense.recurrenceRule !== RecurrenceRule.NONE &&
-    expenseFormValues.recurrenceRule === RecurrenceRule.NONE &&
-    // Delete the existing RecurrenceExpenseLink only if it has not been acted upon yet
+  // The existing RecurrenceExpenseLink can only be changed if it has not been acted upon yet
+  const canChangeRecurrenceExpenseLink =
     existingExpense.recurringExpenseLink?.nextExpenseCreatedAt === null
-
+  const isDeleteRecurrenceExpenseLink =
+    canChangeRecurrenceExpenseLink && !nextExpenseDate
   const isUpdateRecurrenceExpenseLink =
-    existingExpense.recurrenceRule !== expenseFormValues.recurrenceRule &&
-    // Update the exisiting RecurrenceExpenseLink only if it has not been acted upon yet
-    existingExpense.recurringExpenseLink?.nextExpenseCreatedAt === null
+    canChangeRecurrenceExpenseLink && !!nextExpenseDate
   const isCreateRecurrenceExpenseLink =
-    existingExpense.recurrenceRule === RecurrenceRule.NONE &&
-    expenseFormValues.recurrenceRule !== RecurrenceRule.NONE &&
     // Create a new RecurrenceExpenseLink only if one does not already exist for the expense
-    existingExpense.recurringExpenseLink === null
+    existingExpense.recurringExpenseLink === null && !!nextExpenseDate
 
-  const newRecurringExpenseLink = createPayloadForNewRecurringExpenseLink(
-    expenseFormValues.recurrenceRule as RecurrenceRule,
-    expenseFormValues.expenseDate,
-    groupId,
-  )
-
-  const updatedRecurrenceExpenseLinkNextExpenseDate = calculateNextDate(
-    expenseFormValues.recurrenceRule as RecurrenceRule,
-    existingExpense.expenseDate,
-  )
-
-  return prisma.expense.update({
+  const expense = await prisma.expense.update({
     where: { id: expenseId },
     data: {
       expenseDate: expenseFormValues.expenseDate,
@@ -215,8 +551,46 @@ export async function updateExpense(
       title: expenseFormValues.title,
       categoryId: expenseFormValues.category,
       paidById: expenseFormValues.paidBy,
+      payersSplitMode: expenseFormValues.payersSplitMode,
+      payers: {
+        create: expenseFormValues.payers
+          .filter(
+            (p) =>
+              !existingExpense.payers.some(
+                (pp) => pp.participantId === p.participant,
+              ),
+          )
+          .map((payer) => ({
+            participantId: payer.participant,
+            shares: payer.shares,
+          })),
+        update: expenseFormValues.payers
+          .filter((p) =>
+            existingExpense.payers.some(
+              (pp) => pp.participantId === p.participant,
+            ),
+          )
+          .map((payer) => ({
+            where: {
+              expenseId_participantId: {
+                expenseId,
+                participantId: payer.participant,
+              },
+            },
+            data: {
+              shares: payer.shares,
+            },
+          })),
+        deleteMany: existingExpense.payers.filter(
+          (payer) =>
+            !expenseFormValues.payers.some(
+              (p) => p.participant === payer.participantId,
+            ),
+        ),
+      },
       splitMode: expenseFormValues.splitMode,
-      recurrenceRule: expenseFormValues.recurrenceRule,
+      recurrenceRule: rule && formatRecurrenceRule(rule),
+      recurrenceStartDate,
       paidFor: {
         create: expenseFormValues.paidFor
           .filter(
@@ -250,18 +624,36 @@ export async function updateExpense(
       recurringExpenseLink: {
         ...(isCreateRecurrenceExpenseLink
           ? {
-              create: newRecurringExpenseLink,
+              create: createPayloadForNewRecurringExpenseLink(
+                nextExpenseDate,
+                groupId,
+              ),
             }
           : {}),
         ...(isUpdateRecurrenceExpenseLink
           ? {
-              update: {
-                nextExpenseDate: updatedRecurrenceExpenseLinkNextExpenseDate,
-              },
+              update: { nextExpenseDate },
             }
           : {}),
         delete: isDeleteRecurrenceExpenseLink,
       },
+      items: {
+        // Items are always replaced as a whole
+        deleteMany: {},
+        create: expenseFormValues.items.map((item, position) => ({
+          id: randomId(),
+          position,
+          label: item.label,
+          amount: item.amount,
+          participants: {
+            createMany: {
+              data: item.participants.map((participantId) => ({
+                participantId,
+              })),
+            },
+          },
+        })),
+      },
       isReimbursement: expenseFormValues.isReimbursement,
       documents: {
         connectOrCreate: expenseFormValues.documents.map((doc) => ({
@@ -281,7 +673,52 @@ export async function updateExpense(
       },
       notes: expenseFormValues.notes,
     },
+    include: expenseSplitInclude,
   })
+
+  // The expense before and after the update is recorded so that the changes
+  // can be displayed in the activity log and reverted
+  await logActivity(groupId, ActivityType.UPDATE_EXPENSE, {
+    participantId,
+    expenseId,
+    data: expenseFormValues.title,
+    details: {
+      before: getExpenseSnapshot(existingExpense),
+      after: getExpenseSnapshot(expense),
+    },
+  })
+
+  return expense
+}
+
+/**
+ * Restores an expense to its state before the update logged by an activity.
+ * The revert is itself logged as an update, so that it can be reverted too.
+ */
+export async function revertExpense(
+  groupId: string,
+  activityId: string,
+  participantId?: string,
+) {
+  const activity = await prisma.activity.findUnique({
+    where: { id: activityId, groupId },
+  })
+  const revision =
+    activity?.activityType === ActivityType.UPDATE_EXPENSE
+      ? parseExpenseRevision(activity.details)
+      : null
+  if (!activity?.expenseId || !revision)
+    throw new Error(`Invalid activity ID: ${activityId}`)
+
+  const expense = await getExpense(groupId, activity.expenseId)
+  if (!expense) throw new Error(`Invalid expense ID: ${activity.expenseId}`)
+
+  return updateExpense(
+    groupId,
+    expense.id,
+    getExpenseFormValuesFromSnapshot(revision.before, expense),
+    participantId,
+  )
 }
 
 export async function updateGroup(
@@ -292,44 +729,193 @@ export async function updateGroup(
   const existingGroup = await getGroup(groupId)
   if (!existingGroup) throw new Error('Invalid group ID')
 
-  await logActivity(groupId, ActivityType.UPDATE_GROUP, { participantId })
+  // New participants get their ID first, so that it is logged with them
+  const participants = groupFormValues.participants.map((participant) => ({
+    ...participant,
+    isNew: participant.id === undefined,
+    id: participant.id ?? randomId(),
+  }))
 
-  return prisma.group.update({
-    where: { id: groupId },
-    data: {
-      name: groupFormValues.name,
-      information: groupFormValues.information,
-      currency: groupFormValues.currency,
-      currencyCode: groupFormValues.currencyCode,
-      participants: {
-        deleteMany: existingGroup.participants.filter(
-          (p) => !groupFormValues.participants.some((p2) => p2.id === p.id),
-        ),
-        updateMany: groupFormValues.participants
-          .filter((participant) => participant.id !== undefined)
-          .map((participant) => ({
-            where: { id: participant.id },
-            data: {
-              name: participant.name,
+  const removedParticipantIds = existingGroup.participants
+    .filter(
+      (p) =>
+        p.archivedAt === null &&
+        !groupFormValues.participants.some((p2) => p2.id === p.id),
+    )
+    .map((p) => p.id)
+  for (const { fromId, toId } of groupFormValues.reassignedParticipants) {
+    if (
+      !removedParticipantIds.includes(fromId) ||
+      !existingGroup.participants.some((p) => p.id === toId)
+    )
+      throw new Error(`Invalid reassignment: ${fromId} to ${toId}`)
+  }
+
+  // Participants still part of expenses are archived rather than deleted,
+  // unless their expenses are reassigned to another participant
+  const participantsWithExpenses = await getGroupExpensesParticipants(groupId)
+  const archivedParticipantIds = removedParticipantIds.filter(
+    (id) =>
+      participantsWithExpenses.includes(id) &&
+      !groupFormValues.reassignedParticipants.some(
+        ({ fromId }) => fromId === id,
+      ),
+  )
+  const deletedParticipantIds = removedParticipantIds.filter(
+    (id) => !archivedParticipantIds.includes(id),
+  )
+
+  await prisma.activity.createMany({
+    data: getGroupUpdateActivities(
+      existingGroup,
+      { ...groupFormValues, participants },
+      archivedParticipantIds,
+    ).map((activity) => ({
+      id: randomId(),
+      groupId,
+      participantId,
+      ...activity,
+    })),
+  })
+
+  const keptParticipantIds = existingGroup.participants
+    .filter((p) => groupFormValues.participants.some((p2) => p2.id === p.id))
+    .map((p) => p.id)
+
+  return prisma.$transaction(async (transaction) => {
+    for (const { fromId, toId } of groupFormValues.reassignedParticipants)
+      await reassignParticipantExpenses(transaction, groupId, fromId, toId)
+
+    return transaction.group.update({
+      where: { id: groupId },
+      data: {
+        name: groupFormValues.name,
+        information: groupFormValues.information,
+        currency: groupFormValues.currency,
+        currencyCode: groupFormValues.currencyCode,
+        settlementAlgorithm: groupFormValues.settlementAlgorithm,
+        defaultSplitMode: groupFormValues.defaultSplitMode,
+        defaultCategoryId: groupFormValues.defaultCategoryId,
+        // the default payer must be a participant still in the group
+        defaultPayerId: keptParticipantIds.includes(
+          groupFormValues.defaultPayerId ?? '',
+        )
+          ? groupFormValues.defaultPayerId
+          : null,
+        settlementRestriction: groupFormValues.settlementRestriction,
+        // restrictions can only reference participants that already exist
+        treasurerId:
+          groupFormValues.settlementRestriction === 'TREASURER' &&
+          keptParticipantIds.includes(groupFormValues.treasurerId ?? '')
+            ? groupFormValues.treasurerId
+            : null,
+        settlementPairs: {
+          deleteMany: {},
+          createMany: {
+            data: groupFormValues.settlementPairs.filter(
+              ({ fromId, toId }) =>
+                keptParticipantIds.includes(fromId) &&
+                keptParticipantIds.includes(toId),
+            ),
+          },
+        },
+        participants: {
+          deleteMany: { id: { in: deletedParticipantIds } },
+          updateMany: [
+            ...participants
+              .filter((participant) => !participant.isNew)
+              .map((participant) => ({
+                where: { id: participant.id },
+                data: {
+                  name: participant.name,
+                  ...normalizePaymentDetails(participant),
+                  defaultShares: getParticipantDefaultShares(
+                    participant.defaultShares,
+                  ),
+                  inDefaultSplit: participant.inDefaultSplit ?? true,
+                  // Archived participants added back to the group are restored
+                  archivedAt: null,
+                },
+              })),
+            {
+              where: { id: { in: archivedParticipantIds } },
+              data: { archivedAt: new Date() },
             },
-          })),
-        createMany: {
-          data: groupFormValues.participants
-            .filter((participant) => participant.id === undefined)
-            .map((participant) => ({
-              id: randomId(),
-              name: participant.name,
-            })),
+          ],
+          createMany: {
+            data: participants
+              .filter((participant) => participant.isNew)
+              .map((participant) => ({
+                id: participant.id,
+                name: participant.name,
+                ...normalizePaymentDetails(participant),
+                defaultShares: getParticipantDefaultShares(
+                  participant.defaultShares,
+                ),
+                inDefaultSplit: participant.inDefaultSplit ?? true,
+              })),
+          },
         },
       },
-    },
+    })
+  })
+}
+
+/**
+ * Merges a participant into another one, e.g. when someone was added twice:
+ * their expenses and the settings referencing them are moved to the other
+ * participant, and they are removed from the group.
+ */
+export async function mergeParticipants(
+  groupId: string,
+  fromId: string,
+  toId: string,
+  participantId?: string,
+) {
+  const group = await getGroup(groupId)
+  if (!group) throw new Error('Invalid group ID')
+  const from = group.participants.find(({ id }) => id === fromId)
+  const to = group.participants.find(({ id }) => id === toId)
+  if (!from || !to || fromId === toId)
+    throw new Error(`Invalid merge: ${fromId} into ${toId}`)
+
+  await prisma.$transaction(async (transaction) => {
+    await reassignParticipantExpenses(transaction, groupId, fromId, toId)
+    const settings = getMergedGroupSettings(group, fromId, toId)
+    await transaction.group.update({
+      where: { id: groupId },
+      data: {
+        treasurerId: settings.treasurerId,
+        defaultPayerId: settings.defaultPayerId,
+        settlementPairs: {
+          deleteMany: {},
+          createMany: { data: settings.settlementPairs },
+        },
+      },
+    })
+    await transaction.participant.delete({ where: { id: fromId } })
+    await transaction.activity.create({
+      data: {
+        id: randomId(),
+        groupId,
+        activityType: ActivityType.MERGE_PARTICIPANTS,
+        participantId,
+        data: from.name,
+        details: {
+          fromId,
+          fromName: from.name,
+          toId,
+          toName: to.name,
+        },
+      },
+    })
   })
 }
 
 export async function getGroup(groupId: string) {
   return prisma.group.findUnique({
     where: { id: groupId },
-    include: { participants: true },
+    include: { participants: true, settlementPairs: true },
   })
 }
 
@@ -339,10 +925,19 @@ export async function getCategories() {
 
 export async function getGroupExpenses(
   groupId: string,
-  options?: { offset?: number; length?: number; filter?: string },
+  options?: {
+    offset?: number
+    length?: number
+    filter?: string
+    filters?: ExpenseFilters
+  },
 ) {
-  await createRecurringExpenses()
-
+  const group = options?.filter
+    ? await prisma.group.findUniqueOrThrow({
+        where: { id: groupId },
+        select: { currency: true, currencyCode: true },
+      })
+    : null
   return prisma.expense.findMany({
     select: {
       amount: true,
@@ -351,23 +946,44 @@ export async function getGroupExpenses(
       expenseDate: true,
       id: true,
       isReimbursement: true,
+      paidById: true,
       paidBy: { select: { id: true, name: true } },
+      payers: {
+        select: {
+          participantId: true,
+          participant: { select: { id: true, name: true } },
+          shares: true,
+        },
+      },
+      payersSplitMode: true,
       paidFor: {
         select: {
+          participantId: true,
           participant: { select: { id: true, name: true } },
           shares: true,
         },
       },
       splitMode: true,
+      items: {
+        select: {
+          amount: true,
+          participants: { select: { participantId: true } },
+        },
+      },
       recurrenceRule: true,
       title: true,
+      notes: true,
       _count: { select: { documents: true } },
     },
     where: {
       groupId,
-      title: options?.filter
-        ? { contains: options.filter, mode: 'insensitive' }
-        : undefined,
+      deletedAt: null,
+      AND: [
+        ...(options?.filter && group
+          ? getExpenseSearchWhere(options.filter, getCurrencyFromGroup(group))
+          : []),
+        ...(options?.filters ? getExpenseFiltersWhere(options.filters) : []),
+      ],
     },
     orderBy: [{ expenseDate: 'desc' }, { createdAt: 'desc' }],
     skip: options && options.offset,
@@ -376,17 +992,22 @@ export async function getGroupExpenses(
 }
 
 export async function getGroupExpenseCount(groupId: string) {
-  return prisma.expense.count({ where: { groupId } })
+  return prisma.expense.count({ where: { groupId, deletedAt: null } })
 }
 
 export async function getExpense(groupId: string, expenseId: string) {
   return prisma.expense.findUnique({
-    where: { id: expenseId },
+    where: { id: expenseId, deletedAt: null },
     include: {
       paidBy: true,
+      payers: true,
       paidFor: true,
       category: true,
       documents: true,
+      items: {
+        include: { participants: true },
+        orderBy: { position: 'asc' },
+      },
       recurringExpenseLink: true,
     },
   })
@@ -410,6 +1031,7 @@ export async function getActivities(
     where: {
       groupId,
       id: { in: expenseIds },
+      deletedAt: null,
     },
   })
 
@@ -425,7 +1047,12 @@ export async function getActivities(
 export async function logActivity(
   groupId: string,
   activityType: ActivityType,
-  extra?: { participantId?: string; expenseId?: string; data?: string },
+  extra?: {
+    participantId?: string
+    expenseId?: string
+    data?: string
+    details?: Prisma.InputJsonValue
+  },
 ) {
   return prisma.activity.create({
     data: {
@@ -437,148 +1064,10 @@ export async function logActivity(
   })
 }
 
-async function createRecurringExpenses() {
-  const localDate = new Date() // Current local date
-  const utcDateFromLocal = new Date(
-    Date.UTC(
-      localDate.getUTCFullYear(),
-      localDate.getUTCMonth(),
-      localDate.getUTCDate(),
-      // More precision beyond date is required to ensure that recurring Expenses are created within <most precises unit> of when expected
-      localDate.getUTCHours(),
-      localDate.getUTCMinutes(),
-    ),
-  )
-
-  const recurringExpenseLinksWithExpensesToCreate =
-    await prisma.recurringExpenseLink.findMany({
-      where: {
-        nextExpenseCreatedAt: null,
-        nextExpenseDate: {
-          lte: utcDateFromLocal,
-        },
-      },
-      include: {
-        currentFrameExpense: {
-          include: {
-            paidBy: true,
-            paidFor: true,
-            category: true,
-            documents: true,
-          },
-        },
-      },
-    })
-
-  for (const recurringExpenseLink of recurringExpenseLinksWithExpensesToCreate) {
-    let newExpenseDate = recurringExpenseLink.nextExpenseDate
-
-    let currentExpenseRecord = recurringExpenseLink.currentFrameExpense
-    let currentReccuringExpenseLinkId = recurringExpenseLink.id
-
-    while (newExpenseDate < utcDateFromLocal) {
-      const newExpenseId = randomId()
-      const newRecurringExpenseLinkId = randomId()
-
-      const newRecurringExpenseNextExpenseDate = calculateNextDate(
-        currentExpenseRecord.recurrenceRule as RecurrenceRule,
-        newExpenseDate,
-      )
-
-      const {
-        category,
-        paidBy,
-        paidFor,
-        documents,
-        ...destructeredCurrentExpenseRecord
-      } = currentExpenseRecord
-
-      // Use a transacton to ensure that the only one expense is created for the RecurringExpenseLink
-      // just in case two clients are processing the same RecurringExpenseLink at the same time
-      const newExpense = await prisma
-        .$transaction(async (transaction) => {
-          const newExpense = await transaction.expense.create({
-            data: {
-              ...destructeredCurrentExpenseRecord,
-              categoryId: currentExpenseRecord.categoryId,
-              paidById: currentExpenseRecord.paidById,
-              paidFor: {
-                createMany: {
-                  data: currentExpenseRecord.paidFor.map((paidFor) => ({
-                    participantId: paidFor.participantId,
-                    shares: paidFor.shares,
-                  })),
-                },
-              },
-              documents: {
-                connect: currentExpenseRecord.documents.map(
-                  (documentRecord) => ({
-                    id: documentRecord.id,
-                  }),
-                ),
-              },
-              id: newExpenseId,
-              expenseDate: newExpenseDate,
-              recurringExpenseLink: {
-                create: {
-                  groupId: currentExpenseRecord.groupId,
-                  id: newRecurringExpenseLinkId,
-                  nextExpenseDate: newRecurringExpenseNextExpenseDate,
-                },
-              },
-            },
-            // Ensure that the same information is available on the returned record that was created
-            include: {
-              paidFor: true,
-              documents: true,
-              category: true,
-              paidBy: true,
-            },
-          })
-
-          // Mark the RecurringExpenseLink as being "completed" since the new Expense was created
-          // if an expense hasn't been created for this RecurringExpenseLink yet
-          await transaction.recurringExpenseLink.update({
-            where: {
-              id: currentReccuringExpenseLinkId,
-              nextExpenseCreatedAt: null,
-            },
-            data: {
-              nextExpenseCreatedAt: newExpense.createdAt,
-            },
-          })
-
-          return newExpense
-        })
-        .catch(() => {
-          console.error(
-            'Failed to created recurringExpense for expenseId: %s',
-            currentExpenseRecord.id,
-          )
-          return null
-        })
-
-      // If the new expense failed to be created, break out of the while-loop
-      if (newExpense === null) break
-
-      // Set the values for the next iteration of the for-loop in case multiple recurring Expenses need to be created
-      currentExpenseRecord = newExpense
-      currentReccuringExpenseLinkId = newRecurringExpenseLinkId
-      newExpenseDate = newRecurringExpenseNextExpenseDate
-    }
-  }
-}
-
 function createPayloadForNewRecurringExpenseLink(
-  recurrenceRule: RecurrenceRule,
-  priorDateToNextRecurrence: Date,
+  nextExpenseDate: Date,
   groupId: String,
 ): RecurringExpenseLink {
-  const nextExpenseDate = calculateNextDate(
-    recurrenceRule,
-    priorDateToNextRecurrence,
-  )
-
   const recurringExpenseLinkId = randomId()
   const recurringExpenseLinkPayload = {
     id: recurringExpenseLinkId,
@@ -588,52 +1077,3 @@ function createPayloadForNewRecurringExpenseLink(
 
   return recurringExpenseLinkPayload as RecurringExpenseLink
 }
-
-// TODO: Modify this function to use a more comprehensive recurrence Rule library like rrule (https://github.com/jkbrzt/rrule)
-//
-// Current limitations:
-// - If a date is intended to be repeated monthly on the 29th, 30th or 31st, it will change to repeating on the smallest
-// date that the reccurence has encountered. Ex. If a recurrence is created for Jan 31st on 2025, the recurring expense
-// will be created for Feb 28th, March 28, etc. until it is cancelled or fixed
-function calculateNextDate(
-  recurrenceRule: RecurrenceRule,
-  priorDateToNextRecurrence: Date,
-): Date {
-  const nextDate = new Date(priorDateToNextRecurrence)
-  switch (recurrenceRule) {
-    case RecurrenceRule.DAILY:
-      nextDate.setUTCDate(nextDate.getUTCDate() + 1)
-      break
-    case RecurrenceRule.WEEKLY:
-      nextDate.setUTCDate(nextDate.getUTCDate() + 7)
-      break
-    case RecurrenceRule.MONTHLY:
-      const nextYear = nextDate.getUTCFullYear()
-      const nextMonth = nextDate.getUTCMonth() + 1
-      let nextDay = nextDate.getUTCDate()
-
-      // Reduce the next day until it is within the direct next month
-      while (!isDateInNextMonth(nextYear, nextMonth, nextDay)) {
-        nextDay -= 1
-      }
-      nextDate.setUTCMonth(nextMonth, nextDay)
-      break
-  }
-
-  return nextDate
-}
-
-function isDateInNextMonth(
-  utcYear: number,
-  utcMonth: number,
-  utcDate: number,
-): Boolean {
-  const testDate = new Date(Date.UTC(utcYear, utcMonth, utcDate))
-
-  // We're not concerned if the year or month changes. We only want to make sure that the date is our target date
-  if (testDate.getUTCDate() !== utcDate) {
-    return false
-  }
-
-  return true
-}
@@ -0,0 +1,263 @@
+import {
+  Balances,
+  MAX_PARTICIPANTS_FOR_MIN_TRANSFERS,
+  Reimbursement,
+  SettlementRestrictions,
+  getBalances,
+  getSuggestedReimbursements,
+} from './balances'
+
+function makeBalances(totals: Record<string, number>): Balances {
+  return Object.fromEntries(
+    Object.entries(totals).map(([id, total]) => [
+      id,
+      { paid: Math.max(total, 0), paidFor: Math.max(-total, 0), total },
+    ]),
+  )
+}
+
+function expectToSettle(balances: Balances, reimbursements: Reimbursement[]) {
+  const totals = Object.fromEntries(
+    Object.entries(balances).map(([id, { total }]) => [id, total]),
+  )
+  for (const { from, to, amount } of reimbursements) {
+    expect(amount).toBeGreaterThan(0)
+    totals[from] += amount
+    totals[to] -= amount
+  }
+  for (const total of Object.values(totals)) {
+    expect(total).toBeCloseTo(0)
+  }
+}
+
+/** Deterministic pseudo-random balances summing up to zero. */
+function randomBalances(seed: number, count: number) {
+  let state = seed
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31
+    return state / 2 ** 31
+  }
+  const totals: Record<string, number> = {}
+  let sum = 0
+  for (let i = 0; i < count - 1; i++) {
+    // small amounts so that zero-sum subsets are likely
+    const total = Math.round((random() - 0.5) * 10) * 100
+    totals[`p${String(i).padStart(2, '0')}`] = total
+    sum += total
+  }
+  totals[`p${count - 1}`] = -sum
+  return makeBalances(totals)
+}
+
+type Expense = Parameters<typeof getBalances>[0][number]
+
+function makeShares(shares: Record<string, number>) {
+  return Object.entries(shares).map(([id, shares]) => ({
+    participantId: id,
+    participant: { id, name: id },
+    shares,
+  }))
+}
+
+function makeExpense(expense: Partial<Expense>): Expense {
+  return {
+    amount: 0,
+    paidById: 'p1',
+    payersSplitMode: 'EVENLY',
+    payers: [],
+    splitMode: 'EVENLY',
+    paidFor: [],
+    items: [],
+    ...expense,
+  }
+}
+
+function sumTotals(balances: Balances) {
+  return Object.values(balances).reduce((sum, { total }) => sum + total, 0)
+}
+
+describe('getBalances', () => {
+  it('splits between several payers and participants unevenly', () => {
+    const balances = getBalances([
+      makeExpense({
+        amount: 1000,
+        payersSplitMode: 'BY_SHARES',
+        payers: makeShares({ p1: 100, p2: 200, p3: 400 }),
+        paidFor: makeShares({ p1: 100, p2: 100, p3: 100 }),
+      }),
+    ])
+    expect(balances).toEqual({
+      p1: { paid: 143, paidFor: 333, total: -190 },
+      p2: { paid: 286, paidFor: 334, total: -48 },
+      p3: { paid: 571, paidFor: 333, total: 238 },
+    })
+  })
+
+  it('splits by items with shared items and remainders', () => {
+    const balances = getBalances([
+      makeExpense({
+        amount: 1200,
+        paidById: 'p4',
+        splitMode: 'BY_ITEMS',
+        items: [
+          { amount: 1000, participants: ['p1', 'p2', 'p3'] },
+          { amount: 500, participants: ['p1'] },
+          { amount: 301, participants: ['p2', 'p3'] },
+        ].map(({ amount, participants }) => ({
+          amount,
+          participants: participants.map((participantId) => ({
+            participantId,
+          })),
+        })),
+      }),
+    ])
+    expect(balances).toEqual({
+      p4: { paid: 1200, paidFor: 0, total: 1200 },
+      p1: { paid: 0, paidFor: 555, total: -555 },
+      p2: { paid: 0, paidFor: 323, total: -323 },
+      p3: { paid: 0, paidFor: 322, total: -322 },
+    })
+  })
+
+  it('always sums up to zero', () => {
+    let state = 42
+    const random = (max: number) => {
+      state = (state * 1103515245 + 12345) % 2 ** 31
+      return Math.floor((state / 2 ** 31) * max)
+    }
+    const splitModes = ['EVENLY', 'BY_SHARES', 'BY_PERCENTAGE'] as const
+    const randomShares = () => {
+      const shares: Record<string, number> = {}
+      for (let i = 0; i <= random(5); i++) {
+        shares[`p${random(6)}`] = 1 + random(10000)
+      }
+      return makeShares(shares)
+    }
+
+    const expenses = Array.from({ length: 200 }, () =>
+      makeExpense({
+        amount: 1 + random(100000),
+        paidById: `p${random(6)}`,
+        payersSplitMode: splitModes[random(3)],
+        payers: random(2) ? randomShares() : [],
+        splitMode: splitModes[random(3)],
+        paidFor: randomShares(),
+      }),
+    )
+    expect(sumTotals(getBalances(expenses))).toBe(0)
+    for (const expense of expenses) {
+      expect(sumTotals(getBalances([expense]))).toBe(0)
+    }
+  })
+})
+
+describe('getSuggestedReimbursements', () => {
+  it('uses the greedy algorithm by default', () => {
+    const balances = makeBalances({ a: 300, b: 500, c: -300, d: -500 })
+    expect(getSuggestedReimbursements(balances)).toEqual([
+      { from: 'd', to: 'a', amount: 300 },
+      { from: 'd', to: 'b', amount: 200 },
+      { from: 'c', to: 'b', amount: 300 },
+    ])
+  })
+
+  it('finds fewer transfers than the greedy algorithm when possible', () => {
+    const balances = makeBalances({ a: 300, b: 500, c: -300, d: -500 })
+    const reimbursements = getSuggestedReimbursements(balances, 'MIN_TRANSFERS')
+    expect(reimbursements).toHaveLength(2)
+    expect(reimbursements).toEqual(
+      expect.arrayContaining([
+        { from: 'c', to: 'a', amount: 300 },
+        { from: 'd', to: 'b', amount: 500 },
+      ]),
+    )
+  })
+
+  it('never needs more transfers than the greedy algorithm', () => {
+    let improvedCount = 0
+    for (let seed = 1; seed <= 50; seed++) {
+      const balances = randomBalances(seed, 3 + (seed % 8))
+      const greedy = getSuggestedReimbursements(balances, 'GREEDY')
+      const minTransfers = getSuggestedReimbursements(balances, 'MIN_TRANSFERS')
+      expectToSettle(balances, greedy)
+      expectToSettle(balances, minTransfers)
+      expect(minTransfers.length).toBeLessThanOrEqual(greedy.length)
+      if (minTransfers.length < greedy.length) improvedCount++
+    }
+    expect(improvedCount).toBeGreaterThan(0)
+  })
+
+  it('returns nothing when everyone is settled', () => {
+    const balances = makeBalances({ a: 0, b: 0 })
+    expect(getSuggestedReimbursements(balances, 'MIN_TRANSFERS')).toEqual([])
+  })
+
+  it('falls back to the greedy algorithm for large groups', () => {
+    const balances = randomBalances(42, MAX_PARTICIPANTS_FOR_MIN_TRANSFERS + 4)
+    expect(getSuggestedReimbursements(balances, 'MIN_TRANSFERS')).toEqual(
+      getSuggestedReimbursements(balances, 'GREEDY'),
+    )
+  })
+})
+
+describe('getSuggestedReimbursements with restrictions', () => {
+  const balances = makeBalances({ a: 300, b: 500, c: -300, d: -500 })
+  const restrictions: SettlementRestrictions = {
+    mode: 'NONE',
+    participantIds: ['a', 'b', 'c', 'd'],
+    treasurerId: null,
+    pairs: [],
+  }
+
+  it('routes all reimbursements through the treasurer', () => {
+    const reimbursements = getSuggestedReimbursements(balances, 'GREEDY', {
+      ...restrictions,
+      mode: 'TREASURER',
+      treasurerId: 'b',
+    })
+    expectToSettle(balances, reimbursements)
+    expect(reimbursements).toEqual([
+      { from: 'd', to: 'b', amount: 500 },
+      { from: 'b', to: 'a', amount: 300 },
+      { from: 'c', to: 'b', amount: 300 },
+    ])
+  })
+
+  it('avoids forbidden pairs', () => {
+    const reimbursements = getSuggestedReimbursements(balances, 'GREEDY', {
+      ...restrictions,
+      mode: 'FORBIDDEN_PAIRS',
+      pairs: [{ fromId: 'd', toId: 'a' }],
+    })
+    expectToSettle(balances, reimbursements)
+    expect(reimbursements).not.toContainEqual(
+      expect.objectContaining({ from: 'd', to: 'a' }),
+    )
+  })
+
+  it('only uses allowed pairs', () => {
+    const pairs = [
+      { fromId: 'c', toId: 'd' },
+      { fromId: 'd', toId: 'b' },
+      { fromId: 'b', toId: 'a' },
+    ]
+    const reimbursements = getSuggestedReimbursements(
+      balances,
+      'MIN_TRANSFERS',
+      { ...restrictions, mode: 'ALLOWED_PAIRS', pairs },
+    )
+    expectToSettle(balances, reimbursements)
+    for (const { from, to } of reimbursements) {
+      expect(pairs).toContainEqual({ fromId: from, toId: to })
+    }
+  })
+
+  it('keeps reimbursements that cannot be routed', () => {
+    const reimbursements = getSuggestedReimbursements(balances, 'GREEDY', {
+      ...restrictions,
+      mode: 'ALLOWED_PAIRS',
+      pairs: [],
+    })
+    expect(reimbursements).toEqual(getSuggestedReimbursements(balances))
+  })
+})
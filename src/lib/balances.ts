@@ -1,5 +1,14 @@
 import { getGroupExpenses } from '@/lib/api'
-import { Participant } from '@prisma/client'
+import {
+  calculateItemSubtotals,
+  calculatePaidAmounts,
+  divideAmount,
+} from '@/lib/totals'
+import {
+  Participant,
+  SettlementAlgorithm,
+  SettlementRestriction,
+} from '@prisma/client'
 import { match } from 'ts-pattern'
 
 export type Balances = Record<
@@ -13,42 +22,53 @@ export type Reimbursement = {
   amount: number
 }
 
+export type SettlementRestrictions = {
+  mode: SettlementRestriction
+  participantIds: Participant['id'][]
+  treasurerId: Participant['id'] | null
+  pairs: { fromId: Participant['id']; toId: Participant['id'] }[]
+}
+
+type BalancesExpense = NonNullable<
+  Awaited<ReturnType<typeof getGroupExpenses>>
+>[number]
+
 export function getBalances(
-  expenses: NonNullable<Awaited<ReturnType<typeof getGroupExpenses>>>,
+  expenses: Pick<
+    BalancesExpense,
+    | 'amount'
+    | 'paidById'
+    | 'payersSplitMode'
+    | 'payers'
+    | 'splitMode'
+    | 'paidFor'
+    | 'items'
+  >[],
 ): Balances {
   const balances: Balances = {}
 
   for (const expense of expenses) {
-    const paidBy = expense.paidBy.id
-    const paidFors = expense.paidFor
+    const paidBys = calculatePaidAmounts(expense)
+    // When splitting by items, the shares are what each participant consumed
+    const paidFors = divideAmount(
+      expense.amount,
+      expense.splitMode,
+      expense.splitMode === 'BY_ITEMS'
+        ? calculateItemSubtotals(expense.items)
+        : expense.paidFor,
+    )
 
-    if (!balances[paidBy]) balances[paidBy] = { paid: 0, paidFor: 0, total: 0 }
-    balances[paidBy].paid += expense.amount
+    for (const { participantId, amount } of paidBys) {
+      if (!balances[participantId])
+        balances[participantId] = { paid: 0, paidFor: 0, total: 0 }
+      balances[participantId].paid += amount
+    }
 
-    const totalPaidForShares = paidFors.reduce(
-      (sum, paidFor) => sum + paidFor.shares,
-      0,
-    )
-    let remaining = expense.amount
-    paidFors.forEach((paidFor, index) => {
-      if (!balances[paidFor.participant.id])
-        balances[paidFor.participant.id] = { paid: 0, paidFor: 0, total: 0 }
-
-      const isLast = index === paidFors.length - 1
-
-      const [shares, totalShares] = match(expense.splitMode)
-        .with('EVENLY', () => [1, paidFors.length])
-        .with('BY_SHARES', () => [paidFor.shares, totalPaidForShares])
-        .with('BY_PERCENTAGE', () => [paidFor.shares, totalPaidForShares])
-        .with('BY_AMOUNT', () => [paidFor.shares, totalPaidForShares])
-        .exhaustive()
-
-      const dividedAmount = isLast
-        ? remaining
-        : (expense.amount * shares) / totalShares
-      remaining -= dividedAmount
-      balances[paidFor.participant.id].paidFor += dividedAmount
-    })
+    for (const { participantId, amount } of paidFors) {
+      if (!balances[participantId])
+        balances[participantId] = { paid: 0, paidFor: 0, total: 0 }
+      balances[participantId].paidFor += amount
+    }
   }
 
   // rounding and add total
@@ -98,9 +118,124 @@ function compareBalancesForReimbursements(b1: any, b2: any): number {
   return b1.participantId < b2.participantId ? -1 : 1
 }
 
+/**
+ * Above this number of participants with a non-zero balance, finding the
+ * minimum number of transfers takes too long and the greedy algorithm is used.
+ */
+export const MAX_PARTICIPANTS_FOR_MIN_TRANSFERS = 16
+
 export function getSuggestedReimbursements(
   balances: Balances,
+  algorithm: SettlementAlgorithm = SettlementAlgorithm.GREEDY,
+  restrictions?: SettlementRestrictions,
+): Reimbursement[] {
+  const reimbursements =
+    (algorithm === SettlementAlgorithm.MIN_TRANSFERS &&
+      getMinTransfersReimbursements(balances)) ||
+    getGreedyReimbursements(balances)
+  return restrictions && restrictions.mode !== SettlementRestriction.NONE
+    ? applySettlementRestrictions(reimbursements, restrictions)
+    : reimbursements
+}
+
+export function canReimburse(
+  restrictions: SettlementRestrictions,
+  from: Participant['id'],
+  to: Participant['id'],
+) {
+  const isPair = restrictions.pairs.some(
+    (pair) => pair.fromId === from && pair.toId === to,
+  )
+  return match(restrictions.mode)
+    .with(SettlementRestriction.NONE, () => true)
+    .with(SettlementRestriction.FORBIDDEN_PAIRS, () => !isPair)
+    .with(SettlementRestriction.ALLOWED_PAIRS, () => isPair)
+    .with(
+      SettlementRestriction.TREASURER,
+      () =>
+        restrictions.treasurerId === null ||
+        from === restrictions.treasurerId ||
+        to === restrictions.treasurerId,
+    )
+    .exhaustive()
+}
+
+/**
+ * Shortest chain of allowed reimbursements from a participant to another one,
+ * as the list of participants it goes through (including both ends).
+ */
+function findReimbursementPath(
+  restrictions: SettlementRestrictions,
+  from: Participant['id'],
+  to: Participant['id'],
+) {
+  const previous = new Map<Participant['id'], Participant['id'] | null>([
+    [from, null],
+  ])
+  const queue = [from]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    if (current === to) {
+      const path = [to]
+      for (let p = previous.get(to); p; p = previous.get(p)) path.unshift(p)
+      return path
+    }
+    for (const next of restrictions.participantIds) {
+      if (!previous.has(next) && canReimburse(restrictions, current, next)) {
+        previous.set(next, current)
+        queue.push(next)
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Replaces the reimbursements that are not allowed by chains of allowed ones
+ * going through other participants, then merges reimbursements between the
+ * same participants. Reimbursements that cannot be replaced are kept as is.
+ */
+function applySettlementRestrictions(
+  reimbursements: Reimbursement[],
+  restrictions: SettlementRestrictions,
 ): Reimbursement[] {
+  const amounts = new Map<string, Reimbursement>()
+  const add = (from: string, to: string, amount: number) => {
+    const reverse = amounts.get(`${to}→${from}`)
+    if (reverse) {
+      reverse.amount -= amount
+      if (reverse.amount < 0) {
+        amounts.delete(`${to}→${from}`)
+        add(from, to, -reverse.amount)
+      }
+      return
+    }
+    const existing = amounts.get(`${from}→${to}`)
+    if (existing) existing.amount += amount
+    else amounts.set(`${from}→${to}`, { from, to, amount })
+  }
+
+  for (const { from, to, amount } of reimbursements) {
+    const path = canReimburse(restrictions, from, to)
+      ? null
+      : findReimbursementPath(restrictions, from, to)
+    if (!path) {
+      add(from, to, amount)
+      continue
+    }
+    for (let i = 0; i < path.length - 1; i++) add(path[i], path[i + 1], amount)
+  }
+
+  return Array.from(amounts.values()).filter(
+    ({ amount }) => Math.round(amount) + 0 !== 0,
+  )
+}
+
+/**
+ * Pairs the first creditor with the last debtor until everyone is settled.
+ * Makes at most one transfer less than the number of participants.
+ */
+function getGreedyReimbursements(balances: Balances): Reimbursement[] {
   const balancesArray = Object.entries(balances)
     .map(([participantId, { total }]) => ({ participantId, total }))
     .filter((b) => b.total !== 0)
@@ -130,3 +265,69 @@ export function getSuggestedReimbursements(
   }
   return reimbursements.filter(({ amount }) => Math.round(amount) + 0 !== 0)
 }
+
+/**
+ * Finds the reimbursements with the minimum number of transfers: participants
+ * are split in as many groups whose balances sum up to zero as possible, each
+ * group being then settled with the greedy algorithm.
+ *
+ * @returns null if there are too many participants to find them quickly.
+ */
+function getMinTransfersReimbursements(
+  balances: Balances,
+): Reimbursement[] | null {
+  const balancesArray = Object.entries(balances)
+    .map(([participantId, { total }]) => ({
+      participantId,
+      total: Math.round(total),
+    }))
+    .filter((b) => b.total !== 0)
+    .sort(compareBalancesForReimbursements)
+  const count = balancesArray.length
+  if (count > MAX_PARTICIPANTS_FOR_MIN_TRANSFERS) return null
+  if (balancesArray.reduce((sum, b) => sum + b.total, 0) !== 0) return null
+
+  // For each subset of participants (as a bit mask): sum of their balances, and
+  // maximum number of zero-sum groups they can be split in.
+  const fullMask = (1 << count) - 1
+  const sums = new Float64Array(fullMask + 1)
+  const groupCounts = new Int8Array(fullMask + 1)
+  for (let mask = 1; mask <= fullMask; mask++) {
+    const lowestBit = mask & -mask
+    sums[mask] =
+      sums[mask ^ lowestBit] + balancesArray[31 - Math.clz32(lowestBit)].total
+    let best = 0
+    for (let i = 0; i < count; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groupCounts[mask ^ (1 << i)])
+    }
+    groupCounts[mask] = best + (sums[mask] === 0 ? 1 : 0)
+  }
+
+  // Remove participants one by one following the best choices: each time the
+  // remaining participants sum up to zero, the removed ones form a group.
+  const reimbursements: Reimbursement[] = []
+  let mask = fullMask
+  let group: typeof balancesArray = []
+  while (mask) {
+    const expected = groupCounts[mask] - (sums[mask] === 0 ? 1 : 0)
+    const index = balancesArray.findIndex(
+      (_, i) => mask & (1 << i) && groupCounts[mask ^ (1 << i)] === expected,
+    )
+    group.push(balancesArray[index])
+    mask ^= 1 << index
+    if (sums[mask] === 0) {
+      reimbursements.push(
+        ...getGreedyReimbursements(
+          Object.fromEntries(
+            group.map(({ participantId, total }) => [
+              participantId,
+              { paid: 0, paidFor: 0, total },
+            ]),
+          ),
+        ),
+      )
+      group = []
+    }
+  }
+  return reimbursements
+}
@@ -1,4 +1,5 @@
 import { nanoid } from 'nanoid'
+import { defaultRecurrence } from '@/lib/recurrence'
 
 export type CsvTransaction = {
   id: string
@@ -356,7 +357,7 @@ export function transactionToExpenseValues(
     saveDefaultSplittingOptions: false,
     documents: [],
     notes: undefined,
-    recurrenceRule: 'NONE' as const,
+    recurrence: defaultRecurrence,
     originalAmount: undefined,
     originalCurrency: '',
     conversionRate: undefined,
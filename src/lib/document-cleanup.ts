@@ -0,0 +1,64 @@
+import { prisma } from '@/lib/prisma'
+import { getKeyFromUrl, getStorageDriver, StoredObject } from '@/lib/storage'
+
+export type DocumentCleanupOptions = {
+  /** Files uploaded more recently might still be attached to an expense being edited. */
+  gracePeriodHours: number
+  /** Only report orphaned files, without deleting anything. */
+  dryRun: boolean
+}
+
+/**
+ * Finds stored files that are not referenced by any document attached to an
+ * expense, and deletes the ones older than the grace period.
+ */
+export async function cleanupOrphanedDocuments({
+  gracePeriodHours,
+  dryRun,
+}: DocumentCleanupOptions) {
+  const storage = getStorageDriver()
+  // Documents of deleted expenses are kept without expense, they don't count
+  const documents = await prisma.expenseDocument.findMany({
+    select: { id: true, url: true, thumbnailUrl: true, expenseId: true },
+  })
+  const referencedKeys = new Set(
+    documents
+      .filter((document) => document.expenseId !== null)
+      .flatMap((document) => [document.url, document.thumbnailUrl])
+      .filter((url): url is string => url !== null)
+      .map(getKeyFromUrl),
+  )
+
+  const orphans = (await storage.listObjects()).filter(
+    (object) => !referencedKeys.has(object.key),
+  )
+  const expirationDate = new Date(Date.now() - gracePeriodHours * 3600 * 1000)
+  const expired = orphans.filter(
+    (object) => object.lastModified < expirationDate,
+  )
+
+  const deleted: StoredObject[] = []
+  if (!dryRun) {
+    for (const object of expired) {
+      await storage.deleteObject(object.key)
+      deleted.push(object)
+    }
+
+    const deletedKeys = new Set(deleted.map((object) => object.key))
+    await prisma.expenseDocument.deleteMany({
+      where: {
+        id: {
+          in: documents
+            .filter(
+              (document) =>
+                document.expenseId === null &&
+                deletedKeys.has(getKeyFromUrl(document.url)),
+            )
+            .map((document) => document.id),
+        },
+      },
+    })
+  }
+
+  return { orphans, deleted }
+}
@@ -22,6 +22,12 @@ const envSchema = z
       z.boolean().default(false),
     ),
     NEXT_PUBLIC_DEFAULT_CURRENCY_CODE: z.string().optional(),
+    // Protects the /api/admin/* maintenance routes, which are disabled without it
+    ADMIN_API_SECRET: z.string().min(16).optional(),
+    // Number of days deleted expenses stay in the trash before being purged
+    EXPENSE_TRASH_RETENTION_DAYS: z.coerce.number().int().min(1).default(30),
+    STORAGE_DRIVER: z.enum(['s3', 'local']).optional().default('s3'),
+    STORAGE_LOCAL_PATH: z.string().optional(),
     S3_UPLOAD_KEY: z.string().optional(),
     S3_UPLOAD_SECRET: z.string().optional(),
     S3_UPLOAD_BUCKET: z.string().optional(),
@@ -36,10 +42,20 @@ const envSchema = z
       z.boolean().default(false),
     ),
     OPENAI_API_KEY: z.string().optional(),
+    // Defaults to `openai` when OPENAI_API_KEY is specified, `disabled` otherwise
+    AI_PROVIDER: z.enum(['openai', 'openai-compatible', 'disabled']).optional(),
+    AI_BASE_URL: z.string().url().optional(),
+    AI_API_KEY: z.string().optional(),
+    AI_RECEIPT_MODEL: z.string().optional().default('gpt-5-nano'),
+    AI_CATEGORY_MODEL: z.string().optional().default('gpt-3.5-turbo'),
+    // Used to read receipts when AI_PROVIDER is disabled
+    RECEIPT_OCR_LANGUAGES: z.string().optional().default('eng'),
+    RECEIPT_OCR_LANG_PATH: z.string().optional(),
   })
   .superRefine((env, ctx) => {
     if (
       env.NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS &&
+      env.STORAGE_DRIVER === 's3' &&
       // S3_UPLOAD_ENDPOINT is fully optional as it will only be used for providers other than AWS
       (!env.S3_UPLOAD_BUCKET ||
         !env.S3_UPLOAD_KEY ||
@@ -49,18 +65,42 @@ const envSchema = z
       ctx.addIssue({
         code: ZodIssueCode.custom,
         message:
-          'If NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS is specified, then S3_* must be specified too',
+          'If NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS is specified with the s3 STORAGE_DRIVER, then S3_* must be specified too',
       })
     }
     if (
-      (env.NEXT_PUBLIC_ENABLE_RECEIPT_EXTRACT ||
-        env.NEXT_PUBLIC_ENABLE_CATEGORY_EXTRACT) &&
-      !env.OPENAI_API_KEY
+      env.NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS &&
+      env.STORAGE_DRIVER === 'local' &&
+      !env.STORAGE_LOCAL_PATH
     ) {
       ctx.addIssue({
         code: ZodIssueCode.custom,
         message:
-          'If NEXT_PUBLIC_ENABLE_RECEIPT_EXTRACT or NEXT_PUBLIC_ENABLE_CATEGORY_EXTRACT is specified, then OPENAI_API_KEY must be specified too',
+          'If NEXT_PUBLIC_ENABLE_EXPENSE_DOCUMENTS is specified with the local STORAGE_DRIVER, then STORAGE_LOCAL_PATH must be specified too',
+      })
+    }
+    const aiProvider =
+      env.AI_PROVIDER ?? (env.OPENAI_API_KEY ? 'openai' : 'disabled')
+    // Receipts can still be read with OCR when AI is disabled, but not categories
+    if (env.NEXT_PUBLIC_ENABLE_CATEGORY_EXTRACT && aiProvider === 'disabled') {
+      ctx.addIssue({
+        code: ZodIssueCode.custom,
+        message:
+          'If NEXT_PUBLIC_ENABLE_CATEGORY_EXTRACT is specified, then AI_PROVIDER must not be disabled',
+      })
+    }
+    if (aiProvider === 'openai' && !env.AI_API_KEY && !env.OPENAI_API_KEY) {
+      ctx.addIssue({
+        code: ZodIssueCode.custom,
+        message:
+          'If AI_PROVIDER is openai, then AI_API_KEY or OPENAI_API_KEY must be specified too',
+      })
+    }
+    if (aiProvider === 'openai-compatible' && !env.AI_BASE_URL) {
+      ctx.addIssue({
+        code: ZodIssueCode.custom,
+        message:
+          'If AI_PROVIDER is openai-compatible, then AI_BASE_URL must be specified too',
       })
     }
   })
@@ -0,0 +1,101 @@
+import { Currency } from './currency'
+import {
+  getExpenseFiltersSearchParams,
+  getExpenseFiltersWhere,
+  getExpenseSearchWhere,
+  getSearchAmount,
+  parseExpenseFilters,
+} from './expense-filters'
+
+const currency: Currency = {
+  name: 'Euro',
+  symbol_native: '€',
+  symbol: '€',
+  code: 'EUR',
+  name_plural: 'euros',
+  rounding: 0,
+  decimal_digits: 2,
+}
+
+describe('parseExpenseFilters', () => {
+  it('reads the filters from the URL', () => {
+    expect(
+      parseExpenseFilters(
+        new URLSearchParams(
+          'from=2026-01-01&to=2026-01-31&category=3&paidBy=p1&participant=p2&minAmount=10,5&maxAmount=200&reimbursement=false&documents=true&recurring=true',
+        ),
+        currency,
+      ),
+    ).toEqual({
+      from: new Date('2026-01-01T00:00:00.000Z'),
+      to: new Date('2026-01-31T00:00:00.000Z'),
+      categoryId: 3,
+      paidById: 'p1',
+      participantId: 'p2',
+      minAmount: 1050,
+      maxAmount: 20000,
+      isReimbursement: false,
+      hasDocuments: true,
+      isRecurring: true,
+    })
+  })
+
+  it('ignores invalid values', () => {
+    expect(
+      parseExpenseFilters(
+        new URLSearchParams(
+          'from=yesterday&category=food&minAmount=abc&documents=maybe&other=1',
+        ),
+        currency,
+      ),
+    ).toEqual({})
+  })
+
+  it('writes the filters back to the URL', () => {
+    const query = 'from=2026-01-01&category=0&maxAmount=12.5&recurring=false'
+    expect(
+      getExpenseFiltersSearchParams(
+        parseExpenseFilters(new URLSearchParams(query), currency),
+        currency,
+      ).toString(),
+    ).toBe(query)
+  })
+})
+
+describe('getExpenseFiltersWhere', () => {
+  it('returns no condition without filters', () => {
+    expect(getExpenseFiltersWhere({})).toEqual([])
+  })
+
+  it('matches expenses paid by a participant among several payers', () => {
+    expect(getExpenseFiltersWhere({ paidById: 'p1' })).toEqual([
+      {
+        OR: [{ paidById: 'p1' }, { payers: { some: { participantId: 'p1' } } }],
+      },
+    ])
+  })
+})
+
+describe('getSearchAmount', () => {
+  it('reads amounts with a dot or a comma', () => {
+    expect(getSearchAmount('42.50', currency)).toBe(4250)
+    expect(getSearchAmount('42,5', currency)).toBe(4250)
+    expect(getSearchAmount('42', currency)).toBe(4200)
+  })
+
+  it('ignores terms that are not amounts', () => {
+    expect(getSearchAmount('pizza', currency)).toBeNull()
+    expect(getSearchAmount('4.2.1', currency)).toBeNull()
+  })
+})
+
+describe('getExpenseSearchWhere', () => {
+  it('requires each word of the search to match', () => {
+    const where = getExpenseSearchWhere(' pizza  42.50 ', currency)
+    expect(where).toHaveLength(2)
+    expect(where[0].OR).toContainEqual({
+      notes: { contains: 'pizza', mode: 'insensitive' },
+    })
+    expect(where[1].OR).toContainEqual({ amount: { in: [4250, -4250] } })
+  })
+})
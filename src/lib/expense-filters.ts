@@ -0,0 +1,158 @@
+import { Currency } from '@/lib/currency'
+import type { ExpenseFilters } from '@/lib/schemas'
+import { amountAsDecimal, amountAsMinorUnits } from '@/lib/utils'
+import type { Prisma } from '@prisma/client'
+
+/** Conditions an expense must all meet to match the filters. */
+export function getExpenseFiltersWhere(
+  filters: ExpenseFilters,
+): Prisma.ExpenseWhereInput[] {
+  const where: Prisma.ExpenseWhereInput[] = []
+
+  if (filters.from) where.push({ expenseDate: { gte: filters.from } })
+  if (filters.to) where.push({ expenseDate: { lte: filters.to } })
+  if (filters.categoryId !== undefined)
+    where.push({ categoryId: filters.categoryId })
+  if (filters.paidById)
+    where.push({
+      OR: [
+        { paidById: filters.paidById },
+        { payers: { some: { participantId: filters.paidById } } },
+      ],
+    })
+  if (filters.participantId)
+    where.push({
+      OR: [
+        { paidById: filters.participantId },
+        { payers: { some: { participantId: filters.participantId } } },
+        { paidFor: { some: { participantId: filters.participantId } } },
+      ],
+    })
+  if (filters.minAmount !== undefined)
+    where.push({ amount: { gte: filters.minAmount } })
+  if (filters.maxAmount !== undefined)
+    where.push({ amount: { lte: filters.maxAmount } })
+  if (filters.isReimbursement !== undefined)
+    where.push({ isReimbursement: filters.isReimbursement })
+  if (filters.hasDocuments !== undefined)
+    where.push({
+      documents: filters.hasDocuments ? { some: {} } : { none: {} },
+    })
+  if (filters.isRecurring !== undefined)
+    where.push({
+      recurrenceRule: filters.isRecurring ? { not: null } : null,
+    })
+
+  return where
+}
+
+/** Words of a search, each of them must match the expenses found. */
+export function getSearchTerms(search: string) {
+  return search.trim().split(/\s+/).filter(Boolean)
+}
+
+/**
+ * Amount in minor units searched with a term such as `42.50` or `42,5`, or
+ * null if the term is not an amount.
+ */
+export function getSearchAmount(term: string, currency: Currency) {
+  if (!/^\d+([.,]\d+)?$/.test(term)) return null
+  return amountAsMinorUnits(Number(term.replace(',', '.')), currency)
+}
+
+/**
+ * Conditions of a search in the title, notes, category, participants and
+ * amount of the expenses. Each word of the search must match one of them.
+ */
+export function getExpenseSearchWhere(
+  search: string,
+  currency: Currency,
+): Prisma.ExpenseWhereInput[] {
+  return getSearchTerms(search).map((term) => {
+    const contains = { contains: term, mode: 'insensitive' as const }
+    const amount = getSearchAmount(term, currency)
+    return {
+      OR: [
+        { title: contains },
+        { notes: contains },
+        { category: { OR: [{ name: contains }, { grouping: contains }] } },
+        { paidBy: { name: contains } },
+        { payers: { some: { participant: { name: contains } } } },
+        { paidFor: { some: { participant: { name: contains } } } },
+        ...(amount !== null ? [{ amount: { in: [amount, -amount] } }] : []),
+      ],
+    }
+  })
+}
+
+export function countExpenseFilters(filters: ExpenseFilters) {
+  return Object.values(filters).filter((value) => value !== undefined).length
+}
+
+function parseDate(value: string | null) {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined
+  const date = new Date(`${value}T00:00:00.000Z`)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+function parseAmount(value: string | null, currency: Currency) {
+  if (!value) return undefined
+  const amount = Number(value.replace(',', '.'))
+  return isNaN(amount) ? undefined : amountAsMinorUnits(amount, currency)
+}
+
+function parseBoolean(value: string | null) {
+  return value === 'true' ? true : value === 'false' ? false : undefined
+}
+
+/**
+ * Reads the filters of the expense list from the URL, so that a filtered list
+ * can be shared. Invalid values are ignored. Amounts are written as decimal
+ * numbers in the URL.
+ */
+export function parseExpenseFilters(
+  searchParams: URLSearchParams,
+  currency: Currency,
+): ExpenseFilters {
+  const category = searchParams.get('category')
+  const filters: ExpenseFilters = {
+    from: parseDate(searchParams.get('from')),
+    to: parseDate(searchParams.get('to')),
+    categoryId:
+      category && /^\d+$/.test(category) ? Number(category) : undefined,
+    paidById: searchParams.get('paidBy') || undefined,
+    participantId: searchParams.get('participant') || undefined,
+    minAmount: parseAmount(searchParams.get('minAmount'), currency),
+    maxAmount: parseAmount(searchParams.get('maxAmount'), currency),
+    isReimbursement: parseBoolean(searchParams.get('reimbursement')),
+    hasDocuments: parseBoolean(searchParams.get('documents')),
+    isRecurring: parseBoolean(searchParams.get('recurring')),
+  }
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined),
+  )
+}
+
+/** Writes the filters of the expense list to URL search params. */
+export function getExpenseFiltersSearchParams(
+  filters: ExpenseFilters,
+  currency: Currency,
+) {
+  const searchParams = new URLSearchParams()
+  const set = (name: string, value: string | number | boolean | undefined) => {
+    if (value !== undefined) searchParams.set(name, String(value))
+  }
+  set('from', filters.from?.toISOString().substring(0, 10))
+  set('to', filters.to?.toISOString().substring(0, 10))
+  set('category', filters.categoryId)
+  set('paidBy', filters.paidById)
+  set('participant', filters.participantId)
+  if (filters.minAmount !== undefined)
+    set('minAmount', amountAsDecimal(filters.minAmount, currency))
+  if (filters.maxAmount !== undefined)
+    set('maxAmount', amountAsDecimal(filters.maxAmount, currency))
+  set('reimbursement', filters.isReimbursement)
+  set('documents', filters.hasDocuments)
+  set('recurring', filters.isRecurring)
+  return searchParams
+}
@@ -0,0 +1,115 @@
+import {
+  getExpenseFormValuesFromSnapshot,
+  getExpenseRevisionChanges,
+  getExpenseSnapshot,
+  parseExpenseRevision,
+} from './expense-revisions'
+import { ExpenseSnapshot } from './schemas'
+
+const snapshot: ExpenseSnapshot = {
+  title: 'Pizza',
+  amount: 4250,
+  originalAmount: null,
+  originalCurrency: null,
+  conversionRate: null,
+  expenseDate: '2026-10-19',
+  categoryId: 8,
+  paidById: 'p1',
+  payersSplitMode: 'EVENLY',
+  payers: [],
+  splitMode: 'BY_SHARES',
+  paidFor: [
+    { participantId: 'p1', shares: 200 },
+    { participantId: 'p2', shares: 100 },
+  ],
+  items: [],
+  isReimbursement: false,
+  notes: null,
+}
+
+describe('getExpenseSnapshot', () => {
+  it('records the expense with stable participant order', () => {
+    expect(
+      getExpenseSnapshot({
+        id: 'e1',
+        groupId: 'g1',
+        title: 'Pizza',
+        amount: 4250,
+        originalAmount: null,
+        originalCurrency: null,
+        conversionRate: null,
+        expenseDate: new Date('2026-10-19T00:00:00.000Z'),
+        categoryId: 8,
+        paidById: 'p1',
+        payersSplitMode: 'EVENLY',
+        payers: [],
+        splitMode: 'BY_SHARES',
+        paidFor: [
+          { expenseId: 'e1', participantId: 'p2', shares: 100 },
+          { expenseId: 'e1', participantId: 'p1', shares: 200 },
+        ],
+        items: [],
+        isReimbursement: false,
+        createdAt: new Date(),
+        notes: '',
+        recurrenceRule: null,
+        recurrenceStartDate: null,
+        recurringExpenseLinkId: null,
+        deletedAt: null,
+      }),
+    ).toEqual(snapshot)
+  })
+})
+
+describe('getExpenseRevisionChanges', () => {
+  it('returns no change for identical snapshots', () => {
+    expect(
+      getExpenseRevisionChanges({ before: snapshot, after: snapshot }),
+    ).toEqual([])
+  })
+
+  it('returns the changed fields', () => {
+    expect(
+      getExpenseRevisionChanges({
+        before: snapshot,
+        after: {
+          ...snapshot,
+          amount: 5000,
+          notes: 'With drinks',
+          paidFor: [{ participantId: 'p1', shares: 100 }],
+        },
+      }),
+    ).toEqual(['amount', 'split', 'notes'])
+  })
+})
+
+describe('parseExpenseRevision', () => {
+  it('reads a revision', () => {
+    const revision = { before: snapshot, after: { ...snapshot, amount: 10 } }
+    expect(parseExpenseRevision(revision)).toEqual(revision)
+  })
+
+  it('ignores activities without revision', () => {
+    expect(parseExpenseRevision(null)).toBeNull()
+    expect(parseExpenseRevision({ before: snapshot })).toBeNull()
+  })
+})
+
+describe('getExpenseFormValuesFromSnapshot', () => {
+  it('keeps the documents and recurrence of the expense', () => {
+    const values = getExpenseFormValuesFromSnapshot(snapshot, {
+      recurrenceRule: 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=19',
+      documents: [],
+    })
+    expect(values).toMatchObject({
+      expenseDate: new Date('2026-10-19T00:00:00.000Z'),
+      category: 8,
+      paidFor: [
+        { participant: 'p1', shares: 200 },
+        { participant: 'p2', shares: 100 },
+      ],
+      documents: [],
+      recurrence: { frequency: 'MONTHLY', interval: 1 },
+    })
+  })
+})
@@ -0,0 +1,163 @@
+import { getRecurrenceFormValues } from '@/lib/recurrence'
+import {
+  ExpenseFormValues,
+  ExpenseRevision,
+  ExpenseSnapshot,
+  PayersSplitMode,
+  expenseRevisionSchema,
+} from '@/lib/schemas'
+import type {
+  Expense,
+  ExpenseDocument,
+  ExpenseItem,
+  ExpenseItemParticipant,
+  ExpensePaidBy,
+  ExpensePaidFor,
+} from '@prisma/client'
+
+export const expenseRevisionFields = [
+  'title',
+  'amount',
+  'expenseDate',
+  'category',
+  'paidBy',
+  'split',
+  'isReimbursement',
+  'notes',
+] as const
+
+export type ExpenseRevisionField = (typeof expenseRevisionFields)[number]
+
+type ExpenseWithSplit = Expense & {
+  payers: ExpensePaidBy[]
+  paidFor: ExpensePaidFor[]
+  items: (ExpenseItem & { participants: ExpenseItemParticipant[] })[]
+}
+
+function getSharesSnapshot(
+  shares: { participantId: string; shares: number }[],
+) {
+  return shares
+    .map(({ participantId, shares }) => ({ participantId, shares }))
+    .sort((a, b) => a.participantId.localeCompare(b.participantId))
+}
+
+/** State of an expense, as recorded in the activity log. */
+export function getExpenseSnapshot(expense: ExpenseWithSplit): ExpenseSnapshot {
+  return {
+    title: expense.title,
+    amount: expense.amount,
+    originalAmount: expense.originalAmount,
+    originalCurrency: expense.originalCurrency,
+    conversionRate:
+      expense.conversionRate !== null ? Number(expense.conversionRate) : null,
+    expenseDate: expense.expenseDate.toISOString().substring(0, 10),
+    categoryId: expense.categoryId,
+    paidById: expense.paidById,
+    payersSplitMode: expense.payersSplitMode as PayersSplitMode,
+    payers: getSharesSnapshot(expense.payers),
+    splitMode: expense.splitMode,
+    paidFor: getSharesSnapshot(expense.paidFor),
+    items: [...expense.items]
+      .sort((a, b) => a.position - b.position)
+      .map((item) => ({
+        label: item.label,
+        amount: item.amount,
+        participantIds: item.participants
+          .map(({ participantId }) => participantId)
+          .sort(),
+      })),
+    isReimbursement: expense.isReimbursement,
+    notes: expense.notes || null,
+  }
+}
+
+function getFieldValue(snapshot: ExpenseSnapshot, field: ExpenseRevisionField) {
+  switch (field) {
+    case 'amount':
+      return [
+        snapshot.amount,
+        snapshot.originalAmount,
+        snapshot.originalCurrency,
+        snapshot.conversionRate,
+      ]
+    case 'category':
+      return snapshot.categoryId
+    case 'paidBy':
+      return [snapshot.paidById, snapshot.payersSplitMode, snapshot.payers]
+    case 'split':
+      return [snapshot.splitMode, snapshot.paidFor, snapshot.items]
+    default:
+      return snapshot[field]
+  }
+}
+
+/** Fields of the expense changed by a revision. */
+export function getExpenseRevisionChanges(
+  revision: ExpenseRevision,
+): ExpenseRevisionField[] {
+  return expenseRevisionFields.filter(
+    (field) =>
+      JSON.stringify(getFieldValue(revision.before, field)) !==
+      JSON.stringify(getFieldValue(revision.after, field)),
+  )
+}
+
+/**
+ * Reads the revision stored in the details of an `UPDATE_EXPENSE` activity.
+ * Returns null for activities logged before revisions were recorded.
+ */
+export function parseExpenseRevision(details: unknown) {
+  const result = expenseRevisionSchema.safeParse(details)
+  return result.success ? result.data : null
+}
+
+/**
+ * Values restoring an expense to a recorded state. The documents and the
+ * recurrence of the expense are not part of its revisions and are kept.
+ */
+export function getExpenseFormValuesFromSnapshot(
+  snapshot: ExpenseSnapshot,
+  expense: Pick<Expense, 'recurrenceRule'> & { documents: ExpenseDocument[] },
+): ExpenseFormValues {
+  return {
+    title: snapshot.title,
+    amount: snapshot.amount,
+    originalAmount: snapshot.originalAmount ?? undefined,
+    originalCurrency: snapshot.originalCurrency,
+    conversionRate: snapshot.conversionRate ?? undefined,
+    expenseDate: new Date(`${snapshot.expenseDate}T00:00:00.000Z`),
+    category: snapshot.categoryId,
+    paidBy: snapshot.paidById,
+    payersSplitMode: snapshot.payersSplitMode,
+    payers: snapshot.payers.map(({ participantId, shares }) => ({
+      participant: participantId,
+      shares,
+    })),
+    splitMode: snapshot.splitMode,
+    paidFor: snapshot.paidFor.map(({ participantId, shares }) => ({
+      participant: participantId,
+      shares,
+    })),
+    items: snapshot.items.map((item) => ({
+      label: item.label,
+      amount: item.amount,
+      participants: item.participantIds,
+    })),
+    saveDefaultSplittingOptions: false,
+    isReimbursement: snapshot.isReimbursement,
+    documents: expense.documents.map(
+      ({ id, url, width, height, contentType, name, thumbnailUrl }) => ({
+        id,
+        url,
+        width,
+        height,
+        contentType,
+        name,
+        thumbnailUrl,
+      }),
+    ),
+    notes: snapshot.notes ?? undefined,
+    recurrence: getRecurrenceFormValues(expense.recurrenceRule),
+  }
+}
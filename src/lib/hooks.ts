@@ -1,4 +1,6 @@
+import { RuntimeFeatureFlags } from '@/lib/featureFlags'
 import dayjs from 'dayjs'
+import { usePresignedUpload } from 'next-s3-upload'
 import { useEffect, useState } from 'react'
 import useSWR, { Fetcher } from 'swr'
 
@@ -125,3 +127,28 @@ export function useCurrencyRate(
     refresh: mutate,
   }
 }
+
+/**
+ * Uploads expense documents with the configured storage driver: directly to S3
+ * with presigned URLs, or through the app server otherwise.
+ */
+export function useDocumentUpload(
+  storageDriver: RuntimeFeatureFlags['storageDriver'],
+) {
+  const { FileInput, openFileDialog, uploadToS3 } = usePresignedUpload() // use presigned uploads to addtionally support providers other than AWS
+
+  const uploadDocument = async (file: File): Promise<{ url: string }> => {
+    if (storageDriver === 's3') {
+      const { url } = await uploadToS3(file)
+      return { url }
+    }
+
+    const body = new FormData()
+    body.append('file', file)
+    const response = await fetch('/api/documents', { method: 'POST', body })
+    if (!response.ok) throw new Error(`Upload failed (${response.status})`)
+    return (await response.json()) as { url: string }
+  }
+
+  return { FileInput, openFileDialog, uploadDocument }
+}
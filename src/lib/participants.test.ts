@@ -0,0 +1,246 @@
+import {
+  getGroupDefaultSplit,
+  getMergedGroupSettings,
+  getParticipantDefaultShares,
+  getReassignedExpenseSplit,
+  mergeParticipantShares,
+} from './participants'
+
+describe('mergeParticipantShares', () => {
+  it('keeps the split when the participant is not part of it', () => {
+    const shares = [{ participantId: 'p2', shares: 100 }]
+    expect(mergeParticipantShares('EVENLY', shares, 'p1', 'p2')).toEqual({
+      splitMode: 'EVENLY',
+      shares,
+    })
+  })
+
+  it('gives the shares to the other participant', () => {
+    expect(
+      mergeParticipantShares(
+        'BY_AMOUNT',
+        [
+          { participantId: 'p1', shares: 1500 },
+          { participantId: 'p3', shares: 500 },
+        ],
+        'p1',
+        'p2',
+      ),
+    ).toEqual({
+      splitMode: 'BY_AMOUNT',
+      shares: [
+        { participantId: 'p2', shares: 1500 },
+        { participantId: 'p3', shares: 500 },
+      ],
+    })
+  })
+
+  it('sums the shares when both participants are part of the split', () => {
+    expect(
+      mergeParticipantShares(
+        'BY_PERCENTAGE',
+        [
+          { participantId: 'p1', shares: 2500 },
+          { participantId: 'p2', shares: 2500 },
+          { participantId: 'p3', shares: 5000 },
+        ],
+        'p1',
+        'p2',
+      ),
+    ).toEqual({
+      splitMode: 'BY_PERCENTAGE',
+      shares: [
+        { participantId: 'p2', shares: 5000 },
+        { participantId: 'p3', shares: 5000 },
+      ],
+    })
+  })
+
+  it('turns an even split into a split by shares', () => {
+    expect(
+      mergeParticipantShares(
+        'EVENLY',
+        [
+          { participantId: 'p1', shares: 1 },
+          { participantId: 'p2', shares: 1 },
+          { participantId: 'p3', shares: 1 },
+        ],
+        'p1',
+        'p2',
+      ),
+    ).toEqual({
+      splitMode: 'BY_SHARES',
+      shares: [
+        { participantId: 'p2', shares: 200 },
+        { participantId: 'p3', shares: 100 },
+      ],
+    })
+  })
+})
+
+describe('getReassignedExpenseSplit', () => {
+  const expense = {
+    id: 'e1',
+    groupId: 'g1',
+    paidById: 'p1',
+    payersSplitMode: 'BY_AMOUNT' as const,
+    payers: [
+      { expenseId: 'e1', participantId: 'p1', shares: 3000 },
+      { expenseId: 'e1', participantId: 'p3', shares: 1000 },
+    ],
+    splitMode: 'EVENLY' as const,
+    paidFor: [
+      { expenseId: 'e1', participantId: 'p1', shares: 100 },
+      { expenseId: 'e1', participantId: 'p2', shares: 100 },
+    ],
+    items: [
+      {
+        id: 'i1',
+        expenseId: 'e1',
+        position: 0,
+        label: 'Pizza',
+        amount: 2000,
+        participants: [
+          { itemId: 'i1', participantId: 'p1' },
+          { itemId: 'i1', participantId: 'p2' },
+        ],
+      },
+      {
+        id: 'i2',
+        expenseId: 'e1',
+        position: 1,
+        label: 'Drinks',
+        amount: 2000,
+        participants: [{ itemId: 'i2', participantId: 'p3' }],
+      },
+    ],
+  }
+
+  it('moves the expense rows to the other participant', () => {
+    expect(getReassignedExpenseSplit(expense, 'p1', 'p2')).toEqual({
+      paidById: 'p2',
+      payersSplitMode: 'BY_AMOUNT',
+      payers: [
+        { participantId: 'p2', shares: 3000 },
+        { participantId: 'p3', shares: 1000 },
+      ],
+      splitMode: 'BY_SHARES',
+      paidFor: [{ participantId: 'p2', shares: 200 }],
+      items: [{ id: 'i1', participantIds: ['p2'] }],
+    })
+  })
+
+  it('keeps only the participant and shares of the unchanged rows', () => {
+    expect(getReassignedExpenseSplit(expense, 'p2', 'p4')).toEqual({
+      paidById: 'p1',
+      payersSplitMode: 'BY_AMOUNT',
+      payers: [
+        { participantId: 'p1', shares: 3000 },
+        { participantId: 'p3', shares: 1000 },
+      ],
+      splitMode: 'EVENLY',
+      paidFor: [
+        { participantId: 'p1', shares: 100 },
+        { participantId: 'p4', shares: 100 },
+      ],
+      items: [{ id: 'i1', participantIds: ['p1', 'p4'] }],
+    })
+  })
+})
+
+describe('getMergedGroupSettings', () => {
+  it('moves the references to the other participant', () => {
+    expect(
+      getMergedGroupSettings(
+        {
+          treasurerId: 'p1',
+          defaultPayerId: 'p1',
+          settlementPairs: [
+            { fromId: 'p1', toId: 'p3' },
+            { fromId: 'p3', toId: 'p1' },
+          ],
+        },
+        'p1',
+        'p2',
+      ),
+    ).toEqual({
+      treasurerId: 'p2',
+      defaultPayerId: 'p2',
+      settlementPairs: [
+        { fromId: 'p2', toId: 'p3' },
+        { fromId: 'p3', toId: 'p2' },
+      ],
+    })
+  })
+
+  it('drops the settlement pairs between both participants', () => {
+    expect(
+      getMergedGroupSettings(
+        {
+          treasurerId: 'p3',
+          defaultPayerId: null,
+          settlementPairs: [
+            { fromId: 'p1', toId: 'p2' },
+            { fromId: 'p1', toId: 'p3' },
+            { fromId: 'p2', toId: 'p3' },
+          ],
+        },
+        'p1',
+        'p2',
+      ),
+    ).toEqual({
+      treasurerId: 'p3',
+      defaultPayerId: null,
+      settlementPairs: [{ fromId: 'p2', toId: 'p3' }],
+    })
+  })
+})
+
+describe('getParticipantDefaultShares', () => {
+  it('stores the weight like the shares of a split', () => {
+    expect(getParticipantDefaultShares()).toBe(100)
+    expect(getParticipantDefaultShares(2)).toBe(200)
+    expect(getParticipantDefaultShares(1.333)).toBe(133)
+  })
+})
+
+describe('getGroupDefaultSplit', () => {
+  const participants = [
+    { id: 'p1', defaultShares: 200, inDefaultSplit: true },
+    { id: 'p2', defaultShares: 100, inDefaultSplit: true },
+    { id: 'p3', defaultShares: 100, inDefaultSplit: false },
+  ]
+
+  it('splits between the participants of the default split', () => {
+    expect(
+      getGroupDefaultSplit({ defaultSplitMode: 'EVENLY', participants }),
+    ).toEqual({
+      splitMode: 'EVENLY',
+      paidFor: [
+        { participantId: 'p1', shares: 100 },
+        { participantId: 'p2', shares: 100 },
+      ],
+    })
+  })
+
+  it('uses the default shares of the participants', () => {
+    expect(
+      getGroupDefaultSplit({ defaultSplitMode: 'BY_SHARES', participants }),
+    ).toEqual({
+      splitMode: 'BY_SHARES',
+      paidFor: [
+        { participantId: 'p1', shares: 200 },
+        { participantId: 'p2', shares: 100 },
+      ],
+    })
+  })
+
+  it('splits between everyone when nobody is part of the default split', () => {
+    expect(
+      getGroupDefaultSplit({
+        defaultSplitMode: 'EVENLY',
+        participants: [{ id: 'p1', defaultShares: 100, inDefaultSplit: false }],
+      }).paidFor,
+    ).toEqual([{ participantId: 'p1', shares: 100 }])
+  })
+})
@@ -0,0 +1,162 @@
+import { SplitMode } from '@prisma/client'
+
+type Shares = { participantId: string; shares: number }[]
+
+/**
+ * Split of an expense after the shares of a participant are given to another
+ * one. When both are part of the split, their shares are summed; an even split
+ * becomes a split by shares so that the amounts owed do not change.
+ */
+export function mergeParticipantShares<T extends SplitMode>(
+  splitMode: T,
+  shares: Shares,
+  fromId: string,
+  toId: string,
+): { splitMode: T | 'BY_SHARES'; shares: Shares } {
+  const from = shares.find(({ participantId }) => participantId === fromId)
+  const to = shares.find(({ participantId }) => participantId === toId)
+  // Only the participant ID and shares are kept, as rows of another expense
+  // would carry their expense ID
+  if (!from || !to)
+    return {
+      splitMode,
+      shares: shares.map((share) => ({
+        participantId: share === from ? toId : share.participantId,
+        shares: share.shares,
+      })),
+    }
+
+  // Each participant of an even split counts as one share, stored as 100
+  const isEvenSplit = splitMode === 'EVENLY'
+  const getShares = (share: Shares[number]) =>
+    isEvenSplit ? 100 : share.shares
+  return {
+    splitMode: isEvenSplit ? 'BY_SHARES' : splitMode,
+    shares: shares
+      .filter((share) => share !== from)
+      .map((share) => ({
+        participantId: share.participantId,
+        shares:
+          share === to ? getShares(share) + getShares(from) : getShares(share),
+      })),
+  }
+}
+
+/**
+ * Updated split of an expense when the expenses of a participant are moved to
+ * another one. Only the items the participant was part of are returned.
+ */
+export function getReassignedExpenseSplit(
+  expense: {
+    paidById: string
+    payersSplitMode: SplitMode
+    payers: Shares
+    splitMode: SplitMode
+    paidFor: Shares
+    items: { id: string; participants: { participantId: string }[] }[]
+  },
+  fromId: string,
+  toId: string,
+) {
+  const payers = mergeParticipantShares(
+    expense.payersSplitMode,
+    expense.payers,
+    fromId,
+    toId,
+  )
+  const paidFor = mergeParticipantShares(
+    expense.splitMode,
+    expense.paidFor,
+    fromId,
+    toId,
+  )
+  return {
+    paidById: expense.paidById === fromId ? toId : expense.paidById,
+    payersSplitMode: payers.splitMode,
+    payers: payers.shares,
+    splitMode: paidFor.splitMode,
+    paidFor: paidFor.shares,
+    items: expense.items
+      .filter(({ participants }) =>
+        participants.some(({ participantId }) => participantId === fromId),
+      )
+      .map(({ id, participants }) => ({
+        id,
+        participantIds: Array.from(
+          new Set(
+            participants.map(({ participantId }) =>
+              participantId === fromId ? toId : participantId,
+            ),
+          ),
+        ),
+      })),
+  }
+}
+
+/**
+ * Settings of a group once a participant is merged into another one: what
+ * referenced the merged participant references the other one, and the
+ * settlement pairs between both are dropped.
+ */
+export function getMergedGroupSettings(
+  group: {
+    treasurerId: string | null
+    defaultPayerId: string | null
+    settlementPairs: { fromId: string; toId: string }[]
+  },
+  fromId: string,
+  toId: string,
+) {
+  const merge = (participantId: string) =>
+    participantId === fromId ? toId : participantId
+
+  const settlementPairs: { fromId: string; toId: string }[] = []
+  for (const pair of group.settlementPairs) {
+    const mergedPair = { fromId: merge(pair.fromId), toId: merge(pair.toId) }
+    if (
+      mergedPair.fromId !== mergedPair.toId &&
+      !settlementPairs.some(
+        ({ fromId, toId }) =>
+          fromId === mergedPair.fromId && toId === mergedPair.toId,
+      )
+    )
+      settlementPairs.push(mergedPair)
+  }
+
+  return {
+    treasurerId: group.treasurerId && merge(group.treasurerId),
+    defaultPayerId: group.defaultPayerId && merge(group.defaultPayerId),
+    settlementPairs,
+  }
+}
+
+/**
+ * Default shares of a participant as stored, like the shares of a split, from
+ * the weight entered in the group form.
+ */
+export function getParticipantDefaultShares(weight = 1) {
+  return Math.round(weight * 100)
+}
+
+/**
+ * Default split of new expenses set in the group settings: the participants of
+ * the default split, or everyone if there is none, with their default shares
+ * when splitting by shares. Shares are stored like the shares of a split.
+ */
+export function getGroupDefaultSplit(group: {
+  defaultSplitMode: SplitMode
+  participants: { id: string; defaultShares: number; inDefaultSplit: boolean }[]
+}) {
+  const participants = group.participants.filter(
+    ({ inDefaultSplit }) => inDefaultSplit,
+  )
+  return {
+    splitMode: group.defaultSplitMode,
+    paidFor: (participants.length > 0 ? participants : group.participants).map(
+      ({ id, defaultShares }) => ({
+        participantId: id,
+        shares: group.defaultSplitMode === 'BY_SHARES' ? defaultShares : 100,
+      }),
+    ),
+  }
+}
@@ -0,0 +1,144 @@
+import { Currency } from './currency'
+import {
+  PaymentDetails,
+  formatIban,
+  getEpcQrPayload,
+  getPaymentLinks,
+  isValidIban,
+} from './payments'
+
+const recipient: PaymentDetails = {
+  name: 'Jane',
+  iban: 'de89 3704 0044 0532 0130 00',
+  paypalMe: 'https://paypal.me/jane',
+  venmo: '@jane-doe',
+  revolut: 'jane',
+  upi: 'jane@upi',
+  paymentNote: null,
+}
+
+const euro: Currency = {
+  name: 'Euro',
+  symbol_native: '€',
+  symbol: '€',
+  code: 'EUR',
+  name_plural: 'euros',
+  rounding: 0,
+  decimal_digits: 2,
+}
+
+const request = { amount: 12.5, currency: euro, reference: 'Trip' }
+
+describe('isValidIban', () => {
+  it('accepts IBANs with spaces and lowercase letters', () => {
+    expect(isValidIban('DE89370400440532013000')).toBe(true)
+    expect(isValidIban('gb82 west 1234 5698 7654 32')).toBe(true)
+  })
+
+  it('rejects IBANs with a wrong checksum or format', () => {
+    expect(isValidIban('DE88370400440532013000')).toBe(false)
+    expect(isValidIban('DE89')).toBe(false)
+    expect(isValidIban('not an iban')).toBe(false)
+  })
+})
+
+describe('formatIban', () => {
+  it('groups characters by four', () => {
+    expect(formatIban('de89370400440532013000')).toBe(
+      'DE89 3704 0044 0532 0130 00',
+    )
+  })
+})
+
+describe('getPaymentLinks', () => {
+  it('prefills the amount and reference', () => {
+    expect(getPaymentLinks(recipient, request)).toEqual([
+      { method: 'paypalMe', url: 'https://paypal.me/jane/12.50EUR' },
+      {
+        method: 'revolut',
+        url: 'https://revolut.me/jane?amount=12.50&currency=EUR',
+      },
+      {
+        method: 'upi',
+        url: 'upi://pay?pa=jane%40upi&pn=Jane&am=12.50&tn=Trip&cu=EUR',
+      },
+    ])
+  })
+
+  it('does not set a currency for groups with a custom currency', () => {
+    const [paypal, revolut] = getPaymentLinks(recipient, {
+      ...request,
+      currency: { ...euro, code: '' },
+    })
+    expect(paypal.url).toBe('https://paypal.me/jane')
+    expect(revolut.url).toBe('https://revolut.me/jane')
+  })
+
+  it('only links to Venmo for amounts in US dollars', () => {
+    const links = getPaymentLinks(recipient, {
+      ...request,
+      currency: { ...euro, code: 'USD' },
+    })
+    expect(links).toContainEqual({
+      method: 'venmo',
+      url: 'https://venmo.com/jane-doe?txn=pay&amount=12.50&note=Trip',
+    })
+  })
+
+  it('uses the decimal digits of the currency', () => {
+    const [paypal, revolut] = getPaymentLinks(recipient, {
+      ...request,
+      amount: 1250,
+      currency: { ...euro, code: 'JPY', decimal_digits: 0 },
+    })
+    expect(paypal.url).toBe('https://paypal.me/jane/1250JPY')
+    expect(revolut.url).toBe('https://revolut.me/jane?amount=1250&currency=JPY')
+  })
+
+  it('returns no link when the recipient has no payment method', () => {
+    expect(
+      getPaymentLinks(
+        {
+          name: 'John',
+          iban: null,
+          paypalMe: null,
+          venmo: null,
+          revolut: null,
+          upi: null,
+          paymentNote: 'Cash only',
+        },
+        request,
+      ),
+    ).toEqual([])
+  })
+})
+
+describe('getEpcQrPayload', () => {
+  it('encodes a SEPA credit transfer', () => {
+    expect(getEpcQrPayload(recipient, request)).toBe(
+      [
+        'BCD',
+        '002',
+        '1',
+        'SCT',
+        '',
+        'Jane',
+        'DE89370400440532013000',
+        'EUR12.50',
+        '',
+        '',
+        'Trip',
+      ].join('\n'),
+    )
+  })
+
+  it('is only available for amounts in euros', () => {
+    expect(
+      getEpcQrPayload(recipient, {
+        ...request,
+        currency: { ...euro, code: 'USD' },
+      }),
+    ).toBeNull()
+    expect(getEpcQrPayload({ ...recipient, iban: null }, request)).toBeNull()
+  })
+})
@@ -0,0 +1,177 @@
+import { Currency } from '@/lib/currency'
+import { Participant } from '@prisma/client'
+
+export type PaymentDetails = Pick<
+  Participant,
+  'name' | 'iban' | 'paypalMe' | 'venmo' | 'revolut' | 'upi' | 'paymentNote'
+>
+
+export type PaymentMethod = 'paypalMe' | 'venmo' | 'revolut' | 'upi'
+
+export type PaymentLink = { method: PaymentMethod; url: string }
+
+export type PaymentRequest = {
+  /** Amount as a decimal number (e.g. 12.5), not in minor units. */
+  amount: number
+  /** Currency of the group, whose code is empty for a custom currency. */
+  currency: Currency
+  reference: string
+}
+
+export function normalizeIban(iban: string) {
+  return iban.replace(/\s+/g, '').toUpperCase()
+}
+
+/** Payment details of a participant as entered in the group form, as stored. */
+export function normalizePaymentDetails(
+  participant: Partial<
+    Record<Exclude<keyof PaymentDetails, 'name'>, string | null>
+  >,
+): Omit<PaymentDetails, 'name'> {
+  return {
+    iban: participant.iban ? normalizeIban(participant.iban) : null,
+    paypalMe: participant.paypalMe?.trim() || null,
+    venmo: participant.venmo?.trim() || null,
+    revolut: participant.revolut?.trim() || null,
+    upi: participant.upi?.trim() || null,
+    paymentNote: participant.paymentNote?.trim() || null,
+  }
+}
+
+/** Checks the format and the mod-97 checksum of an IBAN. */
+export function isValidIban(iban: string) {
+  const normalized = normalizeIban(iban)
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) return false
+  const digits = (normalized.slice(4) + normalized.slice(0, 4)).replace(
+    /[A-Z]/g,
+    (letter) => String(letter.charCodeAt(0) - 55),
+  )
+  let remainder = 0
+  for (const digit of digits) remainder = (remainder * 10 + Number(digit)) % 97
+  return remainder === 1
+}
+
+/** Groups the characters of an IBAN by four to make it easier to read. */
+export function formatIban(iban: string) {
+  return normalizeIban(iban).replace(/(.{4})(?!$)/g, '$1 ')
+}
+
+/**
+ * Accepts handles entered as `@name`, `name` or as a full profile URL.
+ */
+function getHandle(value: string) {
+  return value
+    .trim()
+    .replace(/^(https?:\/\/)?(www\.)?[a-z.]+\.(me|com)\//i, '')
+    .replace(/^@/, '')
+    .replace(/\/+$/, '')
+}
+
+function formatAmount(amount: number, currency: Currency) {
+  return amount.toFixed(currency.decimal_digits)
+}
+
+export function hasPaymentDetails(details: PaymentDetails) {
+  return Boolean(
+    details.iban ||
+      details.paypalMe ||
+      details.venmo ||
+      details.revolut ||
+      details.upi ||
+      details.paymentNote,
+  )
+}
+
+/**
+ * Links opening the payment app or website of each method the recipient
+ * accepts, with the amount and reference prefilled when the method allows it.
+ */
+export function getPaymentLinks(
+  recipient: PaymentDetails,
+  { amount, currency, reference }: PaymentRequest,
+): PaymentLink[] {
+  const links: PaymentLink[] = []
+  const currencyCode = currency.code
+
+  if (recipient.paypalMe) {
+    const handle = encodeURIComponent(getHandle(recipient.paypalMe))
+    links.push({
+      method: 'paypalMe',
+      url: currencyCode
+        ? `https://paypal.me/${handle}/${formatAmount(
+            amount,
+            currency,
+          )}${currencyCode}`
+        : `https://paypal.me/${handle}`,
+    })
+  }
+
+  // Venmo only supports payments in US dollars
+  if (recipient.venmo && currencyCode === 'USD') {
+    const params = new URLSearchParams({
+      txn: 'pay',
+      amount: formatAmount(amount, currency),
+      note: reference,
+    })
+    links.push({
+      method: 'venmo',
+      url: `https://venmo.com/${encodeURIComponent(
+        getHandle(recipient.venmo),
+      )}?${params}`,
+    })
+  }
+
+  if (recipient.revolut) {
+    const handle = encodeURIComponent(getHandle(recipient.revolut))
+    const params = new URLSearchParams({
+      amount: formatAmount(amount, currency),
+      currency: currencyCode,
+    })
+    links.push({
+      method: 'revolut',
+      url: currencyCode
+        ? `https://revolut.me/${handle}?${params}`
+        : `https://revolut.me/${handle}`,
+    })
+  }
+
+  if (recipient.upi) {
+    const params = new URLSearchParams({
+      pa: recipient.upi.trim(),
+      pn: recipient.name,
+      am: formatAmount(amount, currency),
+      tn: reference,
+    })
+    if (currencyCode) params.set('cu', currencyCode)
+    links.push({ method: 'upi', url: `upi://pay?${params}` })
+  }
+
+  return links
+}
+
+/**
+ * Content of an EPC QR code (also known as SEPA QR code or GiroCode), scanned
+ * by most European banking apps to prefill a credit transfer. Only available
+ * for amounts in euros.
+ * @see https://www.europeanpaymentscouncil.eu/document-library/guidance-documents/quick-response-code-guidelines-enable-data-capture-initiation
+ */
+export function getEpcQrPayload(
+  recipient: PaymentDetails,
+  { amount, currency, reference }: PaymentRequest,
+) {
+  if (!recipient.iban || currency.code !== 'EUR') return null
+  if (amount <= 0 || amount > 999999999.99) return null
+  return [
+    'BCD',
+    '002', // version 2 makes the BIC optional within the EEA
+    '1', // UTF-8
+    'SCT',
+    '', // BIC
+    recipient.name.slice(0, 70),
+    normalizeIban(recipient.iban),
+    `EUR${formatAmount(amount, currency)}`,
+    '', // purpose
+    '', // structured reference
+    reference.slice(0, 140),
+  ].join('\n')
+}
@@ -0,0 +1,39 @@
+/**
+ * Renders the first page of a PDF file as a PNG image, in the browser.
+ * @param maxSize Maximum width or height of the generated image, in pixels.
+ */
+export async function getPdfThumbnail(file: File, maxSize = 600) {
+  // pdf.js is quite big, only load it when a PDF file is uploaded
+  const pdfjs = await import('pdfjs-dist')
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    'pdfjs-dist/build/pdf.worker.min.mjs',
+    import.meta.url,
+  ).toString()
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+    .promise
+  try {
+    const page = await pdf.getPage(1)
+    const { width, height } = page.getViewport({ scale: 1 })
+    const viewport = page.getViewport({
+      scale: maxSize / Math.max(width, height),
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.ceil(viewport.width)
+    canvas.height = Math.ceil(viewport.height)
+    await page.render({ canvas, viewport }).promise
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/png'),
+    )
+    if (!blob) throw new Error('Cannot render PDF thumbnail')
+    return {
+      file: new File([blob], `${file.name}.png`, { type: 'image/png' }),
+      width: canvas.width,
+      height: canvas.height,
+    }
+  } finally {
+    await pdf.destroy()
+  }
+}
@@ -0,0 +1,55 @@
+import { parseReceiptText } from './receipt-ocr'
+
+describe('parseReceiptText', () => {
+  it('reads a receipt with tax added to the subtotal', () => {
+    const text = `
+      ** JOE'S DINER **
+      123 Main Street
+      Tel: 555-0100
+      10/25/2026 19:42
+      Burger            12.50
+      Fries              4.00
+      SUBTOTAL          16.50
+      TAX                1.32
+      TIP                3.00
+      TOTAL USD         20.82
+      CASH              25.00
+      CHANGE             4.18
+    `
+    expect(parseReceiptText(text)).toEqual({
+      merchant: "JOE'S DINER",
+      title: null,
+      categoryId: null,
+      date: '2026-10-25',
+      currency: 'USD',
+      total: 20.82,
+      tax: 1.32,
+      tip: 3,
+      items: [],
+    })
+  })
+
+  it('reads a european receipt with tax included in the prices', () => {
+    const text = `
+      Boulangerie Dupont
+      18.10.26
+      Baguette x2        2,40
+      Tarte           1.234,50
+      Total TTC       1.236,90 €
+      dont TVA 5,5%      64,48
+    `
+    const extraction = parseReceiptText(text)
+    expect(extraction.merchant).toBe('Boulangerie Dupont')
+    expect(extraction.date).toBe('2026-10-18')
+    expect(extraction.currency).toBe('EUR')
+    expect(extraction.total).toBe(1236.9)
+    expect(extraction.tax).toBeNull()
+  })
+
+  it('falls back to the highest amount without any total line', () => {
+    const extraction = parseReceiptText('Corner shop\nMilk 1.20\nEggs 3.10')
+    expect(extraction.total).toBe(3.1)
+    expect(extraction.date).toBeNull()
+    expect(extraction.currency).toBeNull()
+  })
+})
@@ -0,0 +1,168 @@
+import { ReceiptExtraction } from '@/lib/schemas'
+
+/**
+ * Amounts with two decimals, optionally with thousands separators
+ * (`1,234.56`, `1.234,56`, `1 234,56`…). Dates like `12.10.26` are excluded.
+ */
+const amountRegex =
+  /(?<![\d.,])-?(?:\d{1,3}(?:[ ,.']\d{3})+|\d+)[.,]\d{2}(?!\d|[.,]\d)/g
+const isoDateRegex = /(?<!\d)(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?!\d)/
+const dateRegex = /(?<!\d)(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/
+
+const totalRegex =
+  /\b(total|amount due|balance due|to pay|summe|gesamt|montant|importe|totale)\b/i
+const subtotalRegex = /sub\s*-?total|sous[- ]total|zwischensumme/i
+const taxRegex = /\b(tax|vat|tva|mwst|iva)\b/i
+const tipRegex = /\b(tip|gratuity|service charge|pourboire|trinkgeld)\b/i
+const contactRegex = /\b(tel|phone|fax|www|http)|@/i
+
+const currencySymbols: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+}
+const currencyRegex =
+  /[€£₹]|\b(EUR|GBP|INR|USD|CAD|AUD|CHF|JPY|SEK|NOK|DKK|PLN|CZK)\b/
+
+function parseAmount(value: string) {
+  const digits = value.replace(/[ ']/g, '')
+  const decimalSeparatorIndex = digits.length - 3
+  return Number(
+    digits.slice(0, decimalSeparatorIndex).replace(/[.,]/g, '') +
+      '.' +
+      digits.slice(decimalSeparatorIndex + 1),
+  )
+}
+
+function getAmounts(line: string) {
+  return Array.from(line.matchAll(amountRegex), ([match]) => parseAmount(match))
+}
+
+function getLastAmount(line: string) {
+  return getAmounts(line).at(-1) ?? null
+}
+
+function toISODate(year: number, month: number, day: number) {
+  if (year < 100) year += 2000
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  )
+    return null
+  return date.toISOString().substring(0, 10)
+}
+
+function findDate(lines: string[]) {
+  for (const line of lines) {
+    const isoMatch = line.match(isoDateRegex)
+    if (isoMatch) {
+      const [, year, month, day] = isoMatch.map(Number)
+      const date = toISODate(year, month, day)
+      if (date) return date
+    }
+    const match = line.match(dateRegex)
+    if (match) {
+      const [, first, second, year] = match.map(Number)
+      // Day first unless it can only be a month first date (e.g. 10/25/2026)
+      const date =
+        second > 12
+          ? toISODate(year, first, second)
+          : toISODate(year, second, first)
+      if (date) return date
+    }
+  }
+  return null
+}
+
+function findMerchant(lines: string[]) {
+  // The merchant name is usually printed at the top of the receipt
+  return (
+    lines
+      .slice(0, 5)
+      .find(
+        (line) =>
+          /[a-z]{3,}/i.test(line) &&
+          !contactRegex.test(line) &&
+          !isoDateRegex.test(line) &&
+          !dateRegex.test(line) &&
+          getAmounts(line).length === 0,
+      )
+      ?.replace(/^[^\p{L}\d]+|[^\p{L}\d]+$/gu, '') || null
+  )
+}
+
+/**
+ * Heuristically reads the merchant, date, total, tax and tip from the text of a
+ * receipt. Line items are not extracted as OCR text is usually too noisy for them.
+ */
+export function parseReceiptText(text: string): ReceiptExtraction {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  const totals = lines
+    .filter((line) => totalRegex.test(line) && !subtotalRegex.test(line))
+    .map(getLastAmount)
+    .filter((amount): amount is number => amount !== null)
+  const allAmounts = lines.flatMap(getAmounts)
+  const total =
+    totals.length > 0
+      ? Math.max(...totals)
+      : allAmounts.length > 0
+      ? Math.max(...allAmounts)
+      : null
+
+  const findAmount = (regex: RegExp) => {
+    const line = lines.find((line) => regex.test(line))
+    return line ? getLastAmount(line) : null
+  }
+  const subtotal = findAmount(subtotalRegex)
+  const tip = findAmount(tipRegex)
+  const tax = findAmount(taxRegex)
+
+  const currencyMatch = text.match(currencyRegex)
+
+  return {
+    merchant: findMerchant(lines),
+    title: null,
+    categoryId: null,
+    date: findDate(lines),
+    currency: currencyMatch
+      ? currencySymbols[currencyMatch[0]] ?? currencyMatch[1]
+      : null,
+    total,
+    // Tax is only relevant when it is added to the subtotal, not when it is already
+    // included in the prices
+    tax:
+      tax !== null &&
+      subtotal !== null &&
+      total !== null &&
+      Math.abs(subtotal + tax + (tip ?? 0) - total) < 0.01
+        ? tax
+        : null,
+    tip,
+    items: [],
+  }
+}
+
+/**
+ * Reads the text of a receipt image with Tesseract, without calling any
+ * external service (as long as `langPath` points to local language data).
+ */
+export async function recognizeReceiptText(
+  image: Uint8Array,
+  { languages, langPath }: { languages: string[]; langPath?: string },
+) {
+  // Loaded lazily as it is only needed when no AI provider is configured
+  const { createWorker } = await import('tesseract.js')
+  const worker = await createWorker(languages, undefined, { langPath })
+  try {
+    const { data } = await worker.recognize(Buffer.from(image))
+    return data.text
+  } finally {
+    await worker.terminate()
+  }
+}
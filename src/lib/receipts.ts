@@ -0,0 +1,27 @@
+import { ReceiptExtraction } from '@/lib/schemas'
+import { Category } from '@prisma/client'
+
+/**
+ * Converts the information read from a receipt, either by an AI provider or by
+ * OCR, to what is used to prefill the expense form.
+ */
+export function getReceiptExtractedInfo(
+  extraction: ReceiptExtraction,
+  categories: Category[],
+) {
+  // ensure the returned category actually exists
+  const category = categories.find(({ id }) => id === extraction.categoryId)
+  return {
+    amount: extraction.total,
+    categoryId: category?.id ?? null,
+    date: extraction.date,
+    title: extraction.title ?? extraction.merchant,
+    merchant: extraction.merchant,
+    currency: extraction.currency,
+    tax: extraction.tax,
+    tip: extraction.tip,
+    items: extraction.items,
+  }
+}
+
+export type ReceiptExtractedInfo = ReturnType<typeof getReceiptExtractedInfo>
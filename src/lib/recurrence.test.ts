@@ -0,0 +1,158 @@
+import {
+  RecurrenceRule,
+  defaultRecurrence,
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getOccurrence,
+  getRecurrenceFormValues,
+  getRecurrenceRuleFromForm,
+  parseRecurrenceRule,
+} from './recurrence'
+
+const date = (value: string) => new Date(`${value}T00:00:00.000Z`)
+const day = (value: Date) => value.toISOString().substring(0, 10)
+
+function getOccurrences(rule: RecurrenceRule, start: string, length: number) {
+  const occurrences = [start]
+  let current: Date | null = date(start)
+  while (occurrences.length < length) {
+    current = getNextOccurrence(rule, date(start), current)
+    if (!current) break
+    occurrences.push(day(current))
+  }
+  return occurrences
+}
+
+describe('parseRecurrenceRule', () => {
+  it('parses and formats RRULE values', () => {
+    const value = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;UNTIL=20271231'
+    expect(parseRecurrenceRule(value)).toEqual({
+      frequency: 'MONTHLY',
+      interval: 2,
+      byDay: { weekday: 'FR', position: -1 },
+      until: date('2027-12-31'),
+    })
+    expect(formatRecurrenceRule(parseRecurrenceRule(value))).toBe(value)
+  })
+
+  it('rejects unsupported frequencies', () => {
+    expect(() => parseRecurrenceRule('FREQ=HOURLY')).toThrow()
+    expect(() => parseRecurrenceRule('FREQ=DAILY;INTERVAL=0')).toThrow()
+  })
+})
+
+describe('getNextOccurrence', () => {
+  it('keeps monthly expenses anchored on their original day', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31')
+    expect(getOccurrences(rule, '2026-01-31', 4)).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+    ])
+  })
+
+  it('repeats on the last day of the month', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1')
+    expect(getOccurrences(rule, '2028-01-31', 3)).toEqual([
+      '2028-01-31',
+      '2028-02-29',
+      '2028-03-31',
+    ])
+  })
+
+  it('repeats on a weekday of the month', () => {
+    const secondTuesday = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=2TU')
+    expect(getOccurrences(secondTuesday, '2026-10-13', 3)).toEqual([
+      '2026-10-13',
+      '2026-11-10',
+      '2026-12-08',
+    ])
+    const lastFriday = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR')
+    expect(getOccurrences(lastFriday, '2026-10-30', 3)).toEqual([
+      '2026-10-30',
+      '2026-11-27',
+      '2026-12-25',
+    ])
+  })
+
+  it('supports intervals', () => {
+    expect(
+      getOccurrences(
+        parseRecurrenceRule('FREQ=DAILY;INTERVAL=3'),
+        '2026-10-30',
+        3,
+      ),
+    ).toEqual(['2026-10-30', '2026-11-02', '2026-11-05'])
+    expect(
+      getOccurrences(
+        parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO'),
+        '2026-10-19',
+        3,
+      ),
+    ).toEqual(['2026-10-19', '2026-11-02', '2026-11-16'])
+    expect(
+      getOccurrences(parseRecurrenceRule('FREQ=YEARLY'), '2028-02-29', 3),
+    ).toEqual(['2028-02-29', '2029-02-28', '2030-02-28'])
+  })
+
+  it('stops after the end date or the number of occurrences', () => {
+    expect(
+      getOccurrences(
+        parseRecurrenceRule('FREQ=WEEKLY;UNTIL=20261102'),
+        '2026-10-19',
+        10,
+      ),
+    ).toEqual(['2026-10-19', '2026-10-26', '2026-11-02'])
+    expect(
+      getOccurrences(
+        parseRecurrenceRule('FREQ=DAILY;COUNT=3'),
+        '2026-10-19',
+        10,
+      ),
+    ).toEqual(['2026-10-19', '2026-10-20', '2026-10-21'])
+  })
+
+  it('returns the first occurrence after a date', () => {
+    const rule = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=31')
+    expect(getOccurrence(rule, date('2026-01-31'), 0)).toEqual(
+      date('2026-01-31'),
+    )
+    expect(
+      getNextOccurrence(rule, date('2026-01-31'), date('2026-06-15')),
+    ).toEqual(date('2026-06-30'))
+  })
+})
+
+describe('getRecurrenceRuleFromForm', () => {
+  it('anchors the rule on the expense date', () => {
+    const rule = getRecurrenceRuleFromForm(
+      {
+        ...defaultRecurrence,
+        frequency: 'MONTHLY',
+        monthlyMode: 'WEEKDAY_OF_MONTH',
+        endMode: 'COUNT',
+        count: 6,
+      },
+      date('2026-10-29'),
+    )
+    expect(rule && formatRecurrenceRule(rule)).toBe(
+      'FREQ=MONTHLY;BYDAY=-1TH;COUNT=6',
+    )
+  })
+
+  it('returns no rule for expenses that do not repeat', () => {
+    expect(getRecurrenceRuleFromForm(defaultRecurrence, new Date())).toBeNull()
+  })
+
+  it('converts rules back to form values', () => {
+    expect(
+      getRecurrenceFormValues('FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=-1'),
+    ).toEqual({
+      ...defaultRecurrence,
+      frequency: 'MONTHLY',
+      interval: 3,
+      monthlyMode: 'LAST_DAY_OF_MONTH',
+    })
+  })
+})
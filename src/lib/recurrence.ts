@@ -0,0 +1,276 @@
+import type { RecurrenceFormValues } from '@/lib/schemas'
+
+export const recurrenceFrequencies = [
+  'DAILY',
+  'WEEKLY',
+  'MONTHLY',
+  'YEARLY',
+] as const
+export type RecurrenceFrequency = (typeof recurrenceFrequencies)[number]
+
+export const weekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const
+export type Weekday = (typeof weekdays)[number]
+
+/**
+ * Subset of the RFC 5545 recurrence rules (`RRULE`) supported for recurring
+ * expenses. The first occurrence of a series is always its start date, the
+ * next ones are computed from it so that they never drift (a monthly expense
+ * created on January 31 is repeated on February 28 then on March 31).
+ */
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency
+  interval: number
+  /**
+   * Day of the month for monthly rules. Negative values count from the end of
+   * the month (-1 is the last day). Days missing in a month (e.g. 31) fall on
+   * the last day of that month.
+   */
+  byMonthDay?: number
+  /**
+   * Weekday of weekly rules, or weekday of the month for monthly rules with its
+   * position (2 for the second Tuesday, -1 for the last Friday).
+   */
+  byDay?: { weekday: Weekday; position?: number }
+  /** Last date (included) an occurrence can fall on. */
+  until?: Date
+  /** Number of occurrences of the series, including the first one. */
+  count?: number
+}
+
+export const defaultRecurrence: RecurrenceFormValues = {
+  frequency: 'NONE',
+  interval: 1,
+  monthlyMode: 'DAY_OF_MONTH',
+  endMode: 'NEVER',
+  until: null,
+  count: null,
+}
+
+const dayInMs = 24 * 60 * 60 * 1000
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+/** Same time of the day as `date`, on another day (months can overflow). */
+function withDay(date: Date, year: number, month: number, day: number) {
+  const result = new Date(date)
+  result.setUTCFullYear(year, month, day)
+  return result
+}
+
+function formatUntil(date: Date) {
+  return date.toISOString().substring(0, 10).replaceAll('-', '')
+}
+
+function parseUntil(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  if (!match) throw new Error(`Invalid UNTIL value: ${value}`)
+  const [, year, month, day] = match.map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+/** Parses an RRULE value such as `FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=-1`. */
+export function parseRecurrenceRule(value: string): RecurrenceRule {
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [name, partValue = ''] = part.split('=')
+      return [name.trim().toUpperCase(), partValue.trim().toUpperCase()]
+    }),
+  )
+
+  const frequency = parts.get('FREQ') as RecurrenceFrequency | undefined
+  if (!frequency || !recurrenceFrequencies.includes(frequency))
+    throw new Error(`Invalid recurrence rule: ${value}`)
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Number(parts.get('INTERVAL') ?? 1),
+  }
+  if (!Number.isInteger(rule.interval) || rule.interval < 1)
+    throw new Error(`Invalid recurrence rule: ${value}`)
+
+  const byMonthDay = parts.get('BYMONTHDAY')
+  if (byMonthDay) rule.byMonthDay = Number(byMonthDay)
+
+  const byDay = parts.get('BYDAY')?.match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+  if (byDay) {
+    rule.byDay = { weekday: byDay[2] as Weekday }
+    if (byDay[1]) rule.byDay.position = Number(byDay[1])
+  }
+
+  const until = parts.get('UNTIL')
+  if (until) rule.until = parseUntil(until)
+
+  const count = parts.get('COUNT')
+  if (count) rule.count = Number(count)
+
+  return rule
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.frequency}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  if (rule.byDay)
+    parts.push(`BYDAY=${rule.byDay.position ?? ''}${rule.byDay.weekday}`)
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`)
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`)
+  return parts.join(';')
+}
+
+function getMonthlyOccurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  year: number,
+  month: number,
+) {
+  const lastDay = daysInMonth(year, month)
+
+  if (rule.byDay?.position) {
+    const weekday = weekdays.indexOf(rule.byDay.weekday)
+    if (rule.byDay.position > 0) {
+      const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay()
+      const day =
+        1 + ((weekday - firstWeekday + 7) % 7) + (rule.byDay.position - 1) * 7
+      // Falls back to the last one in months without a fifth weekday
+      return withDay(start, year, month, day > lastDay ? day - 7 : day)
+    }
+    const lastWeekday = new Date(Date.UTC(year, month, lastDay)).getUTCDay()
+    const day =
+      lastDay -
+      ((lastWeekday - weekday + 7) % 7) +
+      (rule.byDay.position + 1) * 7
+    return withDay(start, year, month, day)
+  }
+
+  const day = rule.byMonthDay ?? start.getUTCDate()
+  return withDay(
+    start,
+    year,
+    month,
+    day < 0 ? Math.max(lastDay + day + 1, 1) : Math.min(day, lastDay),
+  )
+}
+
+/**
+ * Date of the n-th occurrence of a series starting on `start`, ignoring the
+ * end of the series. The occurrence 0 is the start date.
+ */
+export function getOccurrence(rule: RecurrenceRule, start: Date, n: number) {
+  if (n === 0) return new Date(start)
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      return new Date(start.getTime() + n * rule.interval * dayInMs)
+    case 'WEEKLY': {
+      const date = new Date(start.getTime() + n * rule.interval * 7 * dayInMs)
+      if (rule.byDay) {
+        const shift =
+          (weekdays.indexOf(rule.byDay.weekday) - date.getUTCDay() + 7) % 7
+        date.setUTCDate(date.getUTCDate() + shift)
+      }
+      return date
+    }
+    case 'MONTHLY': {
+      const months = start.getUTCMonth() + n * rule.interval
+      return getMonthlyOccurrence(
+        rule,
+        start,
+        start.getUTCFullYear() + Math.floor(months / 12),
+        months % 12,
+      )
+    }
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + n * rule.interval
+      const month = start.getUTCMonth()
+      return withDay(
+        start,
+        year,
+        month,
+        Math.min(start.getUTCDate(), daysInMonth(year, month)),
+      )
+    }
+  }
+}
+
+/**
+ * First occurrence of the series strictly after `after`, or null when the
+ * series has ended.
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  start: Date,
+  after: Date,
+): Date | null {
+  for (let n = 1; rule.count === undefined || n < rule.count; n++) {
+    const occurrence = getOccurrence(rule, start, n)
+    if (rule.until && occurrence.getTime() >= rule.until.getTime() + dayInMs)
+      return null
+    if (occurrence > after) return occurrence
+  }
+  return null
+}
+
+/** Position of the weekday of a date in its month (-1 for the last one). */
+function getWeekdayPosition(date: Date) {
+  const position = Math.ceil(date.getUTCDate() / 7)
+  return position > 4 ? -1 : position
+}
+
+/**
+ * Builds the rule of the recurrence selected in the expense form, anchored on
+ * the date of the expense. Returns null for expenses that do not repeat.
+ */
+export function getRecurrenceRuleFromForm(
+  recurrence: RecurrenceFormValues,
+  expenseDate: Date,
+): RecurrenceRule | null {
+  if (recurrence.frequency === 'NONE') return null
+
+  const rule: RecurrenceRule = {
+    frequency: recurrence.frequency,
+    interval: recurrence.interval,
+  }
+  const weekday = weekdays[expenseDate.getUTCDay()]
+  if (recurrence.frequency === 'WEEKLY') {
+    rule.byDay = { weekday }
+  } else if (recurrence.frequency === 'MONTHLY') {
+    switch (recurrence.monthlyMode) {
+      case 'DAY_OF_MONTH':
+        rule.byMonthDay = expenseDate.getUTCDate()
+        break
+      case 'LAST_DAY_OF_MONTH':
+        rule.byMonthDay = -1
+        break
+      case 'WEEKDAY_OF_MONTH':
+        rule.byDay = { weekday, position: getWeekdayPosition(expenseDate) }
+        break
+    }
+  }
+  if (recurrence.endMode === 'UNTIL' && recurrence.until)
+    rule.until = recurrence.until
+  if (recurrence.endMode === 'COUNT' && recurrence.count)
+    rule.count = recurrence.count
+  return rule
+}
+
+export function getRecurrenceFormValues(
+  recurrenceRule: string | null,
+): RecurrenceFormValues {
+  if (!recurrenceRule) return defaultRecurrence
+  const rule = parseRecurrenceRule(recurrenceRule)
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval,
+    monthlyMode:
+      rule.byMonthDay !== undefined && rule.byMonthDay < 0
+        ? 'LAST_DAY_OF_MONTH'
+        : rule.byDay?.position
+        ? 'WEEKDAY_OF_MONTH'
+        : 'DAY_OF_MONTH',
+    endMode: rule.until ? 'UNTIL' : rule.count ? 'COUNT' : 'NEVER',
+    until: rule.until ?? null,
+    count: rule.count ?? null,
+  }
+}
@@ -0,0 +1,449 @@
+import { randomId } from '@/lib/api'
+import { prisma } from '@/lib/prisma'
+import {
+  formatRecurrenceRule,
+  getNextOccurrence,
+  getRecurrenceRuleFromForm,
+  parseRecurrenceRule,
+} from '@/lib/recurrence'
+import { RecurringExpenseSeriesFormValues } from '@/lib/schemas'
+import { Expense, Prisma, RecurringExpenseLink } from '@prisma/client'
+
+export type RecurringExpensesOptions = {
+  /** Expenses due until this date are created. */
+  now?: Date
+  /** Only report the expenses to create, without creating anything. */
+  dryRun: boolean
+}
+
+export type RecurringExpenseResult = {
+  groupId: string
+  /** The expense repeated by the new one. */
+  previousExpenseId: string
+  expenseId: string | null
+  expenseDate: Date
+}
+
+/**
+ * Creates the recurring expenses that are due, across all groups. Meant to be
+ * run periodically by a scheduler (see the `create-recurring-expenses` script
+ * and the `/api/admin/recurring-expenses` route).
+ *
+ * Running it several times, even concurrently, never creates an expense twice:
+ * each RecurringExpenseLink is marked as completed in the same transaction as
+ * the creation of the expense it schedules.
+ */
+export async function createDueRecurringExpenses({
+  now = new Date(),
+  dryRun,
+}: RecurringExpensesOptions) {
+  const created: RecurringExpenseResult[] = []
+  const failed: RecurringExpenseResult[] = []
+  /** Links completed by a concurrent run in the meantime. */
+  let skipped = 0
+
+  const recurringExpenseLinksWithExpensesToCreate =
+    await prisma.recurringExpenseLink.findMany({
+      where: {
+        nextExpenseCreatedAt: null,
+        nextExpenseDate: { lte: now },
+        pausedAt: null,
+        // Series of expenses in the trash resume when they are restored
+        currentFrameExpense: { deletedAt: null },
+      },
+      include: {
+        currentFrameExpense: {
+          include: {
+            payers: true,
+            paidFor: true,
+            documents: true,
+            items: { include: { participants: true } },
+          },
+        },
+      },
+    })
+
+  for (const recurringExpenseLink of recurringExpenseLinksWithExpensesToCreate) {
+    let newExpenseDate = recurringExpenseLink.nextExpenseDate
+    let currentExpenseRecord = recurringExpenseLink.currentFrameExpense
+    let currentReccuringExpenseLinkId = recurringExpenseLink.id
+    // Changes of the series only apply to the first expense created, the next
+    // ones repeat it
+    let overrides = getRecurringExpenseOverrides(recurringExpenseLink)
+
+    // Several expenses might be due if the scheduler did not run for a while
+    while (newExpenseDate <= now) {
+      const result: RecurringExpenseResult = {
+        groupId: currentExpenseRecord.groupId,
+        previousExpenseId: currentExpenseRecord.id,
+        expenseId: null,
+        expenseDate: newExpenseDate,
+      }
+
+      // Null when the series ends with this expense
+      const newRecurringExpenseNextExpenseDate =
+        currentExpenseRecord.recurrenceRule
+          ? getNextOccurrence(
+              parseRecurrenceRule(currentExpenseRecord.recurrenceRule),
+              currentExpenseRecord.recurrenceStartDate ??
+                currentExpenseRecord.expenseDate,
+              newExpenseDate,
+            )
+          : null
+
+      if (dryRun) {
+        // Report every due occurrence, as a real run creates all of them
+        created.push(result)
+        if (newRecurringExpenseNextExpenseDate === null) break
+        newExpenseDate = newRecurringExpenseNextExpenseDate
+        continue
+      }
+
+      const newExpenseId = randomId()
+      const newRecurringExpenseLinkId = randomId()
+
+      const {
+        payers,
+        paidFor,
+        documents,
+        items,
+        ...destructeredCurrentExpenseRecord
+      } = currentExpenseRecord
+
+      const newExpense = await prisma
+        .$transaction(async (transaction) => {
+          // Mark the RecurringExpenseLink as being "completed" first: this fails if another
+          // run already created its expense, rolling back the whole transaction
+          await transaction.recurringExpenseLink.update({
+            where: {
+              id: currentReccuringExpenseLinkId,
+              nextExpenseCreatedAt: null,
+            },
+            data: {
+              nextExpenseCreatedAt: new Date(),
+            },
+          })
+
+          return transaction.expense.create({
+            data: {
+              ...destructeredCurrentExpenseRecord,
+              ...overrides,
+              payers: {
+                createMany: {
+                  data: payers.map((payer) => ({
+                    participantId: payer.participantId,
+                    shares: payer.shares,
+                  })),
+                },
+              },
+              paidFor: {
+                createMany: {
+                  data: paidFor.map((paidFor) => ({
+                    participantId: paidFor.participantId,
+                    shares: paidFor.shares,
+                  })),
+                },
+              },
+              items: {
+                create: items.map((item) => ({
+                  id: randomId(),
+                  position: item.position,
+                  label: item.label,
+                  amount: item.amount,
+                  participants: {
+                    createMany: {
+                      data: item.participants.map(({ participantId }) => ({
+                        participantId,
+                      })),
+                    },
+                  },
+                })),
+              },
+              documents: {
+                connect: documents.map((documentRecord) => ({
+                  id: documentRecord.id,
+                })),
+              },
+              id: newExpenseId,
+              expenseDate: newExpenseDate,
+              createdAt: new Date(),
+              recurringExpenseLink: newRecurringExpenseNextExpenseDate
+                ? {
+                    create: {
+                      groupId: currentExpenseRecord.groupId,
+                      id: newRecurringExpenseLinkId,
+                      nextExpenseDate: newRecurringExpenseNextExpenseDate,
+                    },
+                  }
+                : undefined,
+            },
+            // Ensure that the same information is available on the returned record that was created
+            include: {
+              payers: true,
+              paidFor: true,
+              documents: true,
+              items: { include: { participants: true } },
+            },
+          })
+        })
+        .catch((err) => {
+          if (
+            err instanceof Prisma.PrismaClientKnownRequestError &&
+            err.code === 'P2025'
+          ) {
+            skipped++
+          } else {
+            console.error(
+              'Failed to create recurring expense for expenseId: %s',
+              currentExpenseRecord.id,
+              err,
+            )
+            failed.push(result)
+          }
+          return null
+        })
+
+      // If the new expense was not created or the series ended, break out of the while-loop
+      if (newExpense === null) break
+      created.push({ ...result, expenseId: newExpense.id })
+      if (newRecurringExpenseNextExpenseDate === null) break
+
+      // Set the values for the next iteration of the for-loop in case multiple recurring Expenses need to be created
+      currentExpenseRecord = newExpense
+      currentReccuringExpenseLinkId = newRecurringExpenseLinkId
+      newExpenseDate = newRecurringExpenseNextExpenseDate
+      overrides = {}
+    }
+  }
+
+  return { created, failed, skipped }
+}
+
+function getRecurringExpenseOverrides({
+  title,
+  amount,
+  categoryId,
+}: Pick<RecurringExpenseLink, 'title' | 'amount' | 'categoryId'>) {
+  return {
+    ...(title !== null ? { title } : {}),
+    ...(categoryId !== null ? { categoryId } : {}),
+    // The amount was entered in the currency of the group
+    ...(amount !== null
+      ? {
+          amount,
+          originalAmount: null,
+          originalCurrency: null,
+          conversionRate: null,
+        }
+      : {}),
+  }
+}
+
+/**
+ * Recurring expense series of a group that will create more expenses, with the
+ * last expense created for each of them.
+ */
+export async function getRecurringExpenseSeries(groupId: string) {
+  return prisma.recurringExpenseLink.findMany({
+    where: {
+      groupId,
+      nextExpenseCreatedAt: null,
+      currentFrameExpense: { deletedAt: null },
+    },
+    include: {
+      currentFrameExpense: {
+        select: {
+          id: true,
+          title: true,
+          amount: true,
+          expenseDate: true,
+          categoryId: true,
+          splitMode: true,
+          payersSplitMode: true,
+          recurrenceRule: true,
+          recurrenceStartDate: true,
+          paidBy: { select: { id: true, name: true } },
+        },
+      },
+    },
+    orderBy: [{ nextExpenseDate: 'asc' }],
+  })
+}
+
+async function getActiveRecurringExpenseLink(
+  groupId: string,
+  recurringExpenseLinkId: string,
+) {
+  const recurringExpenseLink = await prisma.recurringExpenseLink.findUnique({
+    where: { id: recurringExpenseLinkId },
+    include: { currentFrameExpense: true },
+  })
+  if (
+    !recurringExpenseLink ||
+    recurringExpenseLink.groupId !== groupId ||
+    recurringExpenseLink.nextExpenseCreatedAt !== null ||
+    recurringExpenseLink.currentFrameExpense.deletedAt !== null
+  )
+    throw new Error(
+      `Invalid recurring expense series ID: ${recurringExpenseLinkId}`,
+    )
+  return recurringExpenseLink
+}
+
+function getSeriesRule(
+  expense: Pick<
+    Expense,
+    'recurrenceRule' | 'recurrenceStartDate' | 'expenseDate'
+  >,
+) {
+  if (!expense.recurrenceRule) return null
+  return {
+    rule: parseRecurrenceRule(expense.recurrenceRule),
+    start: expense.recurrenceStartDate ?? expense.expenseDate,
+  }
+}
+
+export async function pauseRecurringExpenseSeries(
+  groupId: string,
+  recurringExpenseLinkId: string,
+) {
+  await getActiveRecurringExpenseLink(groupId, recurringExpenseLinkId)
+  await prisma.recurringExpenseLink.update({
+    where: { id: recurringExpenseLinkId },
+    data: { pausedAt: new Date() },
+  })
+}
+
+/**
+ * Resumes a paused series. The occurrences that were due while it was paused
+ * are not created.
+ */
+export async function resumeRecurringExpenseSeries(
+  groupId: string,
+  recurringExpenseLinkId: string,
+) {
+  const { nextExpenseDate, currentFrameExpense } =
+    await getActiveRecurringExpenseLink(groupId, recurringExpenseLinkId)
+
+  const today = new Date()
+  today.setUTCHours(0, 0, 0, 0)
+  const series = getSeriesRule(currentFrameExpense)
+  const resumedNextExpenseDate =
+    nextExpenseDate >= today
+      ? nextExpenseDate
+      : series &&
+        getNextOccurrence(
+          series.rule,
+          series.start,
+          new Date(today.getTime() - 1),
+        )
+  if (!resumedNextExpenseDate) {
+    return endRecurringExpenseSeries(groupId, recurringExpenseLinkId)
+  }
+
+  await prisma.recurringExpenseLink.update({
+    where: { id: recurringExpenseLinkId },
+    data: { pausedAt: null, nextExpenseDate: resumedNextExpenseDate },
+  })
+}
+
+/** Skips the next occurrence of a series, ending it if it was the last one. */
+export async function skipNextRecurringExpense(
+  groupId: string,
+  recurringExpenseLinkId: string,
+) {
+  const { nextExpenseDate, currentFrameExpense } =
+    await getActiveRecurringExpenseLink(groupId, recurringExpenseLinkId)
+
+  const series = getSeriesRule(currentFrameExpense)
+  const followingExpenseDate =
+    series && getNextOccurrence(series.rule, series.start, nextExpenseDate)
+  if (!followingExpenseDate) {
+    return endRecurringExpenseSeries(groupId, recurringExpenseLinkId)
+  }
+
+  await prisma.recurringExpenseLink.update({
+    where: { id: recurringExpenseLinkId },
+    data: { nextExpenseDate: followingExpenseDate },
+  })
+}
+
+/**
+ * Changes the next expenses of a series. The expenses already created are not
+ * changed, except for the recurrence of the last one as the next ones are
+ * computed from it.
+ */
+export async function updateRecurringExpenseSeries(
+  groupId: string,
+  recurringExpenseLinkId: string,
+  values: RecurringExpenseSeriesFormValues,
+) {
+  const { nextExpenseDate: scheduledExpenseDate, currentFrameExpense } =
+    await getActiveRecurringExpenseLink(groupId, recurringExpenseLinkId)
+
+  const hasFixedAmounts =
+    currentFrameExpense.splitMode === 'BY_AMOUNT' ||
+    currentFrameExpense.splitMode === 'BY_ITEMS' ||
+    currentFrameExpense.payersSplitMode === 'BY_AMOUNT'
+  if (hasFixedAmounts && values.amount !== currentFrameExpense.amount)
+    throw new Error(
+      'The amount of expenses split by amount or by items cannot be changed',
+    )
+
+  // Keep the series anchored on its first expense
+  const start =
+    currentFrameExpense.recurrenceStartDate ?? currentFrameExpense.expenseDate
+  const rule = getRecurrenceRuleFromForm(values.recurrence, start)
+  const recurrenceRule = rule && formatRecurrenceRule(rule)
+  // An occurrence skipped by the user stays skipped if the rule is unchanged
+  const nextExpenseDate =
+    rule && recurrenceRule === currentFrameExpense.recurrenceRule
+      ? scheduledExpenseDate
+      : rule && getNextOccurrence(rule, start, currentFrameExpense.expenseDate)
+  if (!rule || !nextExpenseDate) {
+    return endRecurringExpenseSeries(groupId, recurringExpenseLinkId)
+  }
+
+  await prisma.$transaction([
+    prisma.expense.update({
+      where: { id: currentFrameExpense.id },
+      data: {
+        recurrenceRule,
+        recurrenceStartDate: start,
+      },
+    }),
+    prisma.recurringExpenseLink.update({
+      where: { id: recurringExpenseLinkId },
+      data: {
+        nextExpenseDate,
+        title: values.title !== currentFrameExpense.title ? values.title : null,
+        amount:
+          values.amount !== currentFrameExpense.amount ? values.amount : null,
+        categoryId:
+          values.category !== currentFrameExpense.categoryId
+            ? values.category
+            : null,
+      },
+    }),
+  ])
+}
+
+/** Stops a series: no more expenses will be created. */
+export async function endRecurringExpenseSeries(
+  groupId: string,
+  recurringExpenseLinkId: string,
+) {
+  const { currentFrameExpense } = await getActiveRecurringExpenseLink(
+    groupId,
+    recurringExpenseLinkId,
+  )
+  await prisma.$transaction([
+    prisma.recurringExpenseLink.delete({
+      where: { id: recurringExpenseLinkId },
+    }),
+    prisma.expense.update({
+      where: { id: currentFrameExpense.id },
+      data: { recurrenceRule: null, recurrenceStartDate: null },
+    }),
+  ])
+}
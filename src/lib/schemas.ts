@@ -1,4 +1,10 @@
-import { RecurrenceRule, SplitMode } from '@prisma/client'
+import { isValidIban } from '@/lib/payments'
+import { recurrenceFrequencies } from '@/lib/recurrence'
+import {
+  SettlementAlgorithm,
+  SettlementRestriction,
+  SplitMode,
+} from '@prisma/client'
 import Decimal from 'decimal.js'
 
 import * as z from 'zod'
@@ -9,16 +15,91 @@ export const groupFormSchema = z
     information: z.string().optional(),
     currency: z.string().min(1, 'min1').max(5, 'max5'),
     currencyCode: z.union([z.string().length(3).nullish(), z.literal('')]), // ISO-4217 currency code
+    settlementAlgorithm: z
+      .enum<
+        SettlementAlgorithm,
+        [SettlementAlgorithm, ...SettlementAlgorithm[]]
+      >(Object.values(SettlementAlgorithm) as any)
+      .default('GREEDY'),
+    settlementRestriction: z
+      .enum<
+        SettlementRestriction,
+        [SettlementRestriction, ...SettlementRestriction[]]
+      >(Object.values(SettlementRestriction) as any)
+      .default('NONE'),
+    treasurerId: z.string().nullish(),
+    settlementPairs: z
+      .array(z.object({ fromId: z.string(), toId: z.string() }))
+      .default([]),
+    // Defaults of new expenses
+    defaultSplitMode: z.enum(['EVENLY', 'BY_SHARES']).default('EVENLY'),
+    defaultCategoryId: z.number().int().default(0),
+    defaultPayerId: z.string().nullish(),
     participants: z
       .array(
         z.object({
           id: z.string().optional(),
           name: z.string().min(2, 'min2').max(50, 'max50'),
+          iban: z
+            .string()
+            .optional()
+            .refine((iban) => !iban || isValidIban(iban), 'invalidIban'),
+          paypalMe: z.string().max(50, 'max50').optional(),
+          venmo: z.string().max(50, 'max50').optional(),
+          revolut: z.string().max(50, 'max50').optional(),
+          upi: z.string().max(50, 'max50').optional(),
+          paymentNote: z.string().max(200, 'max200').optional(),
+          // Default weight of the participant in splits by shares
+          defaultShares: z.coerce.number().positive('noZeroShares').optional(),
+          inDefaultSplit: z.boolean().optional(),
         }),
       )
       .min(1),
+    // Participants removed from the group whose expenses are moved to another one
+    reassignedParticipants: z
+      .array(z.object({ fromId: z.string(), toId: z.string() }))
+      .default([]),
   })
-  .superRefine(({ participants }, ctx) => {
+  .superRefine((groupFormValues, ctx) => {
+    const { participants } = groupFormValues
+    if (
+      groupFormValues.settlementRestriction === 'TREASURER' &&
+      !groupFormValues.treasurerId
+    ) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'treasurerRequired',
+        path: ['treasurerId'],
+      })
+    }
+    groupFormValues.settlementPairs.forEach(({ fromId, toId }, i) => {
+      if (fromId === toId) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'settlementPairSameParticipant',
+          path: ['settlementPairs', i, 'toId'],
+        })
+      }
+    })
+    if (participants.every(({ inDefaultSplit }) => inDefaultSplit === false)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'defaultSplitMin1',
+        path: ['defaultSplitMode'],
+      })
+    }
+    groupFormValues.reassignedParticipants.forEach(({ fromId, toId }, i) => {
+      if (
+        participants.some(({ id }) => id === fromId) ||
+        !participants.some(({ id }) => id === toId)
+      ) {
+        ctx.addIssue({
+          code: 'custom',
+          message: 'invalidReassignment',
+          path: ['reassignedParticipants', i, 'toId'],
+        })
+      }
+    })
     participants.forEach((participant, i) => {
       participants.slice(0, i).forEach((otherParticipant) => {
         if (otherParticipant.name === participant.name) {
@@ -47,6 +128,76 @@ const inputCoercedToNumber = z.union([
   }),
 ])
 
+const sharesInput = z.union([
+  z.number(),
+  z.string().transform((value, ctx) => {
+    const normalizedValue = value.replace(/,/g, '.')
+    const valueAsNumber = Number(normalizedValue)
+    if (Number.isNaN(valueAsNumber))
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'invalidNumber',
+      })
+    return value
+  }),
+])
+
+const refineNoZeroShares = (
+  entries: { shares: number | string }[],
+  ctx: z.RefinementCtx,
+) => {
+  for (const { shares } of entries) {
+    const shareNumber = Number(shares)
+    if (shareNumber <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'noZeroShares',
+      })
+    }
+  }
+}
+
+// Splitting what each payer contributed by percentage is not supported
+export const payersSplitModes = [
+  'EVENLY',
+  'BY_SHARES',
+  'BY_AMOUNT',
+] as const satisfies readonly SplitMode[]
+export type PayersSplitMode = (typeof payersSplitModes)[number]
+
+export const recurrenceFormSchema = z
+  .object({
+    frequency: z.enum(['NONE', ...recurrenceFrequencies]),
+    interval: z.coerce
+      .number()
+      .int('recurrenceInterval')
+      .min(1, 'recurrenceInterval')
+      .max(999, 'recurrenceInterval'),
+    monthlyMode: z.enum([
+      'DAY_OF_MONTH',
+      'LAST_DAY_OF_MONTH',
+      'WEEKDAY_OF_MONTH',
+    ]),
+    endMode: z.enum(['NEVER', 'UNTIL', 'COUNT']),
+    until: z.coerce.date().nullish(),
+    count: z.coerce.number().int().nullish(),
+  })
+  .superRefine((recurrence, ctx) => {
+    if (
+      recurrence.frequency !== 'NONE' &&
+      recurrence.endMode === 'COUNT' &&
+      !(recurrence.count && recurrence.count >= 2)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'recurrenceCountMin2',
+        path: ['count'],
+      })
+    }
+  })
+
+export type RecurrenceFormValues = z.infer<typeof recurrenceFormSchema>
+
 export const expenseFormSchema = z
   .object({
     expenseDate: z.coerce.date(),
@@ -86,63 +237,104 @@ export const expenseFormSchema = z
       ])
       .optional(),
     paidBy: z.string({ required_error: 'paidByRequired' }),
+    payers: z
+      .array(
+        z.object({
+          participant: z.string(),
+          shares: sharesInput,
+        }),
+      )
+      .superRefine(refineNoZeroShares)
+      .default([]),
+    payersSplitMode: z.enum(payersSplitModes).default('EVENLY'),
     paidFor: z
       .array(
         z.object({
           participant: z.string(),
           originalAmount: z.string().optional(), // For converting shares by amounts in original currency, not saved.
-          shares: z.union([
-            z.number(),
-            z.string().transform((value, ctx) => {
-              const normalizedValue = value.replace(/,/g, '.')
-              const valueAsNumber = Number(normalizedValue)
-              if (Number.isNaN(valueAsNumber))
-                ctx.addIssue({
-                  code: z.ZodIssueCode.custom,
-                  message: 'invalidNumber',
-                })
-              return value
-            }),
-          ]),
+          shares: sharesInput,
         }),
       )
       .min(1, 'paidForMin1')
-      .superRefine((paidFor, ctx) => {
-        for (const { shares } of paidFor) {
-          const shareNumber = Number(shares)
-          if (shareNumber <= 0) {
-            ctx.addIssue({
-              code: z.ZodIssueCode.custom,
-              message: 'noZeroShares',
-            })
-          }
-        }
-      }),
+      .superRefine(refineNoZeroShares),
     splitMode: z
       .enum<SplitMode, [SplitMode, ...SplitMode[]]>(
         Object.values(SplitMode) as any,
       )
       .default('EVENLY'),
+    items: z
+      .array(
+        z.object({
+          id: z.string().optional(),
+          label: z.string().min(1, 'min1'),
+          amount: inputCoercedToNumber,
+          participants: z.array(z.string()).min(1, 'itemParticipantsMin1'),
+        }),
+      )
+      .default([]),
     saveDefaultSplittingOptions: z.boolean(),
     isReimbursement: z.boolean(),
     documents: z
       .array(
         z.object({
           id: z.string(),
-          url: z.string().url(),
-          width: z.number().int().min(1),
-          height: z.number().int().min(1),
+          // documents stored on the local disk are served by the app itself
+          url: z.string().url().or(z.string().startsWith('/api/documents/')),
+          width: z.number().int().min(1).nullish(),
+          height: z.number().int().min(1).nullish(),
+          contentType: z.string().nullish(),
+          name: z.string().nullish(),
+          thumbnailUrl: z
+            .string()
+            .url()
+            .or(z.string().startsWith('/api/documents/'))
+            .nullish(),
         }),
       )
       .default([]),
     notes: z.string().optional(),
-    recurrenceRule: z
-      .enum<RecurrenceRule, [RecurrenceRule, ...RecurrenceRule[]]>(
-        Object.values(RecurrenceRule) as any,
-      )
-      .default('NONE'),
+    recurrence: recurrenceFormSchema.default({
+      frequency: 'NONE',
+      interval: 1,
+      monthlyMode: 'DAY_OF_MONTH',
+      endMode: 'NEVER',
+    }),
   })
   .superRefine((expense, ctx) => {
+    const { recurrence } = expense
+    if (
+      recurrence.frequency !== 'NONE' &&
+      recurrence.endMode === 'UNTIL' &&
+      !(recurrence.until && recurrence.until >= expense.expenseDate)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'recurrenceUntilBeforeDate',
+        path: ['recurrence', 'until'],
+      })
+    }
+    if (expense.payers.length > 0) {
+      if (!expense.payers.some((p) => p.participant === expense.paidBy)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'paidByNotInPayers',
+          path: ['payers'],
+        })
+      }
+      if (expense.payersSplitMode === 'BY_AMOUNT') {
+        const sum = expense.payers.reduce(
+          (sum, { shares }) => new Decimal(shares).add(sum),
+          new Decimal(0),
+        )
+        if (!sum.equals(new Decimal(expense.amount))) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'payersAmountSum',
+            path: ['payers'],
+          })
+        }
+      }
+    }
     switch (expense.splitMode) {
       case 'EVENLY':
         break // noop
@@ -188,13 +380,57 @@ export const expenseFormSchema = z
         }
         break
       }
+      case 'BY_ITEMS': {
+        const sum = expense.items.reduce(
+          (sum, { amount }) => new Decimal(amount).add(sum),
+          new Decimal(0),
+        )
+        if (expense.items.length === 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'itemsMin1',
+            path: ['items'],
+          })
+        } else if (sum.isZero()) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'itemsAmountNotZero',
+            path: ['items'],
+          })
+        } else if (sum.abs().greaterThan(Math.abs(expense.amount))) {
+          // Tax and tip can only add to the items
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'itemsAmountSum',
+            path: ['items'],
+          })
+        }
+        break
+      }
     }
   })
   .transform((expense) => {
     // Format the share split as a number (if from form submission)
     return {
       ...expense,
-      paidFor: expense.paidFor.map((paidFor) => {
+      payers: expense.payers.map((payer) => {
+        const shares = payer.shares
+        if (
+          typeof shares === 'string' &&
+          expense.payersSplitMode !== 'BY_AMOUNT'
+        ) {
+          return { ...payer, shares: Math.round(Number(shares) * 100) }
+        }
+        return { ...payer, shares: Number(shares) }
+      }),
+      items: expense.splitMode === 'BY_ITEMS' ? expense.items : [],
+      // When splitting by items, the expense is paid for everyone consuming an item
+      paidFor: (expense.splitMode === 'BY_ITEMS'
+        ? Array.from(
+            new Set(expense.items.flatMap((item) => item.participants)),
+          ).map((participant) => ({ participant, shares: 100 }))
+        : expense.paidFor
+      ).map((paidFor) => {
         const shares = paidFor.shares
         if (typeof shares === 'string' && expense.splitMode !== 'BY_AMOUNT') {
           // For splitting not by amount, preserve the previous behaviour of multiplying the share by 100
@@ -214,8 +450,188 @@ export const expenseFormSchema = z
 
 export type ExpenseFormValues = z.infer<typeof expenseFormSchema>
 
+/** Changes applied to the next expenses of a recurring expense series. */
+export const recurringExpenseSeriesFormSchema = z
+  .object({
+    title: z.string({ required_error: 'titleRequired' }).min(2, 'min2'),
+    category: z.coerce.number().default(0),
+    amount: inputCoercedToNumber
+      .refine((amount) => amount != 0, 'amountNotZero')
+      .refine((amount) => amount <= 10_000_000_00, 'amountTenMillion'),
+    /** Date of the last expense created, the series cannot end before it. */
+    expenseDate: z.coerce.date(),
+    recurrence: recurrenceFormSchema,
+  })
+  .superRefine((series, ctx) => {
+    const { recurrence } = series
+    if (
+      recurrence.frequency !== 'NONE' &&
+      recurrence.endMode === 'UNTIL' &&
+      !(recurrence.until && recurrence.until >= series.expenseDate)
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'recurrenceUntilBeforeDate',
+        path: ['recurrence', 'until'],
+      })
+    }
+  })
+
+export type RecurringExpenseSeriesFormValues = z.infer<
+  typeof recurringExpenseSeriesFormSchema
+>
+
+/**
+ * Filters of the expense list. Amounts are in minor units (cents) and
+ * negative for incomes, dates are inclusive.
+ */
+export const expenseFiltersSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  categoryId: z.number().int().optional(),
+  paidById: z.string().optional(),
+  participantId: z.string().optional(),
+  minAmount: z.number().int().optional(),
+  maxAmount: z.number().int().optional(),
+  isReimbursement: z.boolean().optional(),
+  hasDocuments: z.boolean().optional(),
+  isRecurring: z.boolean().optional(),
+})
+
+export type ExpenseFilters = z.infer<typeof expenseFiltersSchema>
+
+/**
+ * Changes applied at once to several expenses. Only the fields set are
+ * changed. Changing the participants splits the expenses evenly.
+ */
+export const bulkExpenseChangesSchema = z.object({
+  category: z.number().int().optional(),
+  paidBy: z.string().min(1).optional(),
+  paidFor: z.array(z.string().min(1)).min(1, 'paidForMin1').optional(),
+  expenseDate: z.coerce.date().optional(),
+})
+
+export type BulkExpenseChanges = z.infer<typeof bulkExpenseChangesSchema>
+
+const expenseSharesSnapshotSchema = z.array(
+  z.object({ participantId: z.string(), shares: z.number() }),
+)
+
+/**
+ * State of an expense recorded in the activity log. Amounts and shares are
+ * stored as in the database, the date as `YYYY-MM-DD`.
+ */
+export const expenseSnapshotSchema = z.object({
+  title: z.string(),
+  amount: z.number().int(),
+  originalAmount: z.number().int().nullable(),
+  originalCurrency: z.string().nullable(),
+  conversionRate: z.number().nullable(),
+  expenseDate: z.string(),
+  categoryId: z.number().int(),
+  paidById: z.string(),
+  payersSplitMode: z.enum(payersSplitModes),
+  payers: expenseSharesSnapshotSchema,
+  splitMode: z.enum<SplitMode, [SplitMode, ...SplitMode[]]>(
+    Object.values(SplitMode) as any,
+  ),
+  paidFor: expenseSharesSnapshotSchema,
+  items: z.array(
+    z.object({
+      label: z.string(),
+      amount: z.number().int(),
+      participantIds: z.array(z.string()),
+    }),
+  ),
+  isReimbursement: z.boolean(),
+  notes: z.string().nullable(),
+})
+
+export type ExpenseSnapshot = z.infer<typeof expenseSnapshotSchema>
+
+/** Details of an `UPDATE_EXPENSE` activity. */
+export const expenseRevisionSchema = z.object({
+  before: expenseSnapshotSchema,
+  after: expenseSnapshotSchema,
+})
+
+export type ExpenseRevision = z.infer<typeof expenseRevisionSchema>
+
+/** Details of the `ADD_PARTICIPANT` and `REMOVE_PARTICIPANT` activities. */
+export const participantActivityDetailsSchema = z.object({
+  participantId: z.string(),
+  name: z.string(),
+  // Set for participants archived because they are part of expenses
+  archived: z.boolean().optional(),
+  // Set for participants whose expenses were moved to another one
+  reassignedToId: z.string().optional(),
+})
+
+/** Details of a `RENAME_PARTICIPANT` activity. */
+export const participantRenamedDetailsSchema = z.object({
+  participantId: z.string(),
+  previousName: z.string(),
+  name: z.string(),
+})
+
+/**
+ * Details of a `MERGE_PARTICIPANTS` activity. The names are recorded as the
+ * merged participant is removed from the group.
+ */
+export const participantsMergedDetailsSchema = z.object({
+  fromId: z.string(),
+  fromName: z.string(),
+  toId: z.string(),
+  toName: z.string(),
+})
+
+/**
+ * Details of a `CHANGE_CURRENCY` activity. Currencies are ISO 4217 codes, or
+ * symbols for custom currencies.
+ */
+export const currencyChangedDetailsSchema = z.object({
+  previousCurrency: z.string(),
+  currency: z.string(),
+})
+
+/** Details of a `CREATE_REIMBURSEMENT` activity, in minor units. */
+export const reimbursementDetailsSchema = z.object({
+  fromId: z.string(),
+  toId: z.string(),
+  amount: z.number().int(),
+})
+
+/** Details of an `IMPORT_EXPENSES` activity. */
+export const expensesImportedDetailsSchema = z.object({
+  count: z.number().int(),
+})
+
 export type SplittingOptions = {
   // Used for saving default splitting options in localStorage
   splitMode: SplitMode
   paidFor: ExpenseFormValues['paidFor'] | null
 }
+
+/**
+ * Shape of the information extracted from a receipt image.
+ * Amounts are decimal numbers in the receipt currency (e.g. 12.5 for USD 12.50).
+ */
+export const receiptExtractionSchema = z.object({
+  merchant: z.string().nullable().default(null),
+  title: z.string().nullable().default(null),
+  categoryId: z.coerce.number().int().nullable().default(null),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .nullable()
+    .catch(null),
+  currency: z.string().length(3).nullable().catch(null),
+  total: z.coerce.number().nullable().default(null),
+  tax: z.coerce.number().nullable().default(null),
+  tip: z.coerce.number().nullable().default(null),
+  items: z
+    .array(z.object({ label: z.string(), amount: z.coerce.number() }))
+    .default([]),
+})
+
+export type ReceiptExtraction = z.infer<typeof receiptExtractionSchema>
@@ -0,0 +1,238 @@
+import { randomId } from '@/lib/api'
+import { env } from '@/lib/env'
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises'
+import path from 'path'
+
+/** Files stored by the local driver are served by this route. */
+export const localDocumentsPath = '/api/documents'
+
+export type StoredFile = { body: Uint8Array; contentType: string }
+
+export type StoredObject = { key: string; lastModified: Date }
+
+/** Prefix of all keys generated by {@link getDocumentKey}. */
+const documentKeyPrefix = 'document-'
+
+/**
+ * Where expense documents are stored. Configured with STORAGE_DRIVER.
+ */
+export type StorageDriver = {
+  /** Stores a file and returns the URL it will be displayed from. */
+  putObject(key: string, body: Uint8Array, contentType: string): Promise<string>
+  getObject(key: string): Promise<StoredFile | null>
+  deleteObject(key: string): Promise<void>
+  /** Lists the stored documents, ignoring any other file of the bucket or directory. */
+  listObjects(): Promise<StoredObject[]>
+}
+
+const contentTypes: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+}
+
+/**
+ * Content types that browsers can safely display from our own origin. Other
+ * files (HTML, SVG…) could run scripts, so they are always downloaded.
+ */
+export function canDisplayInline(contentType: string) {
+  return [
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'image/gif',
+    'application/pdf',
+  ].includes(contentType)
+}
+
+export function getContentType(key: string) {
+  return (
+    contentTypes[path.extname(key).toLowerCase()] ?? 'application/octet-stream'
+  )
+}
+
+export function getDocumentKey(filename: string) {
+  const [, extension] = filename.match(/(\.[^\.]*)$/) ?? [null, '']
+  const timestamp = new Date().toISOString()
+  const random = randomId()
+  return `${documentKeyPrefix}${timestamp}-${random}${extension.toLowerCase()}`
+}
+
+export function getKeyFromUrl(url: string) {
+  const { pathname } = new URL(url, 'http://localhost')
+  return decodeURIComponent(pathname.split('/').at(-1) ?? '')
+}
+
+/** Keys are generated by {@link getDocumentKey}, no need to accept paths. */
+function isValidKey(key: string) {
+  return key === path.basename(key) && !key.startsWith('.')
+}
+
+/** Same URLs as the ones returned by next-s3-upload. */
+function getS3BaseUrl() {
+  return env.S3_UPLOAD_ENDPOINT
+    ? `${env.S3_UPLOAD_ENDPOINT}/${env.S3_UPLOAD_BUCKET}/`
+    : `https://${env.S3_UPLOAD_BUCKET}.s3.${env.S3_UPLOAD_REGION}.amazonaws.com/`
+}
+
+function createS3StorageDriver(): StorageDriver {
+  const bucket = env.S3_UPLOAD_BUCKET!
+  const client = new S3Client({
+    region: env.S3_UPLOAD_REGION,
+    credentials: {
+      accessKeyId: env.S3_UPLOAD_KEY!,
+      secretAccessKey: env.S3_UPLOAD_SECRET!,
+    },
+    endpoint: env.S3_UPLOAD_ENDPOINT,
+    // forcing path style is only necessary for providers other than AWS
+    forcePathStyle: !!env.S3_UPLOAD_ENDPOINT,
+  })
+
+  return {
+    async putObject(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          CacheControl: 'max-age=630720000',
+        }),
+      )
+      return `${getS3BaseUrl()}${key}`
+    },
+    async getObject(key) {
+      try {
+        const object = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key }),
+        )
+        if (!object.Body) return null
+        return {
+          body: await object.Body.transformToByteArray(),
+          contentType: object.ContentType ?? getContentType(key),
+        }
+      } catch (err) {
+        if (err instanceof NoSuchKey) return null
+        throw err
+      }
+    },
+    async deleteObject(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+    },
+    async listObjects() {
+      const objects: StoredObject[] = []
+      let continuationToken: string | undefined
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: documentKeyPrefix,
+            ContinuationToken: continuationToken,
+          }),
+        )
+        for (const { Key, LastModified } of page.Contents ?? []) {
+          if (Key && LastModified) {
+            objects.push({ key: Key, lastModified: LastModified })
+          }
+        }
+        continuationToken = page.NextContinuationToken
+      } while (continuationToken)
+      return objects
+    },
+  }
+}
+
+function createLocalStorageDriver(directory: string): StorageDriver {
+  const getPath = (key: string) => {
+    if (!isValidKey(key)) throw new Error(`Invalid document key: ${key}`)
+    return path.join(directory, key)
+  }
+
+  return {
+    async putObject(key, body) {
+      await mkdir(directory, { recursive: true })
+      await writeFile(getPath(key), body)
+      return `${localDocumentsPath}/${encodeURIComponent(key)}`
+    },
+    async getObject(key) {
+      if (!isValidKey(key)) return null
+      try {
+        return {
+          body: await readFile(getPath(key)),
+          contentType: getContentType(key),
+        }
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw err
+      }
+    },
+    async deleteObject(key) {
+      await rm(getPath(key), { force: true })
+    },
+    async listObjects() {
+      let keys: string[]
+      try {
+        keys = await readdir(directory)
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return []
+        throw err
+      }
+      return Promise.all(
+        keys
+          .filter((key) => key.startsWith(documentKeyPrefix))
+          .map(async (key) => ({
+            key,
+            lastModified: (await stat(getPath(key))).mtime,
+          })),
+      )
+    },
+  }
+}
+
+let storageDriver: StorageDriver | undefined
+
+export function getStorageDriver(): StorageDriver {
+  storageDriver ??=
+    env.STORAGE_DRIVER === 'local'
+      ? createLocalStorageDriver(env.STORAGE_LOCAL_PATH!)
+      : createS3StorageDriver()
+  return storageDriver
+}
+
+/**
+ * Returns the content of a document from its URL, reading files stored by the
+ * local driver directly as they might not be reachable through the base URL.
+ */
+export async function fetchDocument(url: string): Promise<StoredFile> {
+  if (url.startsWith(`${localDocumentsPath}/`)) {
+    const file = await getStorageDriver().getObject(getKeyFromUrl(url))
+    if (!file) throw new Error(`Document not found: ${url}`)
+    return file
+  }
+
+  // Only fetch documents from our own bucket, not any URL sent by a client
+  if (!url.startsWith(getS3BaseUrl())) {
+    throw new Error(`Not a stored document: ${url}`)
+  }
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Could not fetch document: ${url}`)
+  return {
+    body: new Uint8Array(await response.arrayBuffer()),
+    contentType:
+      response.headers.get('Content-Type') ??
+      getContentType(new URL(url).pathname),
+  }
+}
@@ -0,0 +1,171 @@
+import {
+  calculateItemSubtotals,
+  calculatePaidAmount,
+  calculatePaidAmounts,
+  calculateShare,
+  divideAmount,
+} from './totals'
+
+function sumAmounts(parts: { amount: number }[]) {
+  return parts.reduce((sum, { amount }) => sum + amount, 0)
+}
+
+describe('divideAmount', () => {
+  it('gives the remainder of an even split without losing any cent', () => {
+    const parts = divideAmount(1000, 'EVENLY', [
+      { participantId: 'p1', shares: 100 },
+      { participantId: 'p2', shares: 100 },
+      { participantId: 'p3', shares: 100 },
+    ])
+    expect(parts).toEqual([
+      { participantId: 'p1', amount: 333 },
+      { participantId: 'p2', amount: 334 },
+      { participantId: 'p3', amount: 333 },
+    ])
+  })
+
+  it('divides in proportion to fractional shares', () => {
+    const parts = divideAmount(1200, 'BY_ITEMS', [
+      { participantId: 'p1', shares: 2500 / 3 },
+      { participantId: 'p2', shares: 2903 / 6 },
+      { participantId: 'p3', shares: 2903 / 6 },
+    ])
+    expect(parts).toEqual([
+      { participantId: 'p1', amount: 555 },
+      { participantId: 'p2', amount: 323 },
+      { participantId: 'p3', amount: 322 },
+    ])
+  })
+
+  it('divides nothing when there are no shares', () => {
+    expect(
+      divideAmount(1000, 'BY_SHARES', [{ participantId: 'p1', shares: 0 }]),
+    ).toEqual([{ participantId: 'p1', amount: 0 }])
+  })
+})
+
+describe('calculatePaidAmounts', () => {
+  const expense = {
+    amount: 1000,
+    paidById: 'p1',
+    payersSplitMode: 'EVENLY' as const,
+    payers: [],
+  }
+
+  it('falls back to the single payer', () => {
+    expect(calculatePaidAmounts(expense)).toEqual([
+      { participantId: 'p1', amount: 1000 },
+    ])
+  })
+
+  it('splits between several payers by shares', () => {
+    const paidAmounts = calculatePaidAmounts({
+      ...expense,
+      payersSplitMode: 'BY_SHARES',
+      payers: [
+        { participantId: 'p1', shares: 100 },
+        { participantId: 'p2', shares: 200 },
+        { participantId: 'p3', shares: 400 },
+      ],
+    })
+    expect(paidAmounts).toEqual([
+      { participantId: 'p1', amount: 143 },
+      { participantId: 'p2', amount: 286 },
+      { participantId: 'p3', amount: 571 },
+    ])
+  })
+
+  it('splits between several payers by percentage', () => {
+    const paidAmounts = calculatePaidAmounts({
+      ...expense,
+      amount: 1001,
+      payersSplitMode: 'BY_PERCENTAGE',
+      payers: [
+        { participantId: 'p1', shares: 3333 },
+        { participantId: 'p2', shares: 3333 },
+        { participantId: 'p3', shares: 3334 },
+      ],
+    })
+    expect(paidAmounts).toEqual([
+      { participantId: 'p1', amount: 334 },
+      { participantId: 'p2', amount: 333 },
+      { participantId: 'p3', amount: 334 },
+    ])
+    expect(sumAmounts(paidAmounts)).toBe(1001)
+  })
+
+  it('keeps the amounts of payers by amount', () => {
+    expect(
+      calculatePaidAmounts({
+        ...expense,
+        payersSplitMode: 'BY_AMOUNT',
+        payers: [
+          { participantId: 'p1', shares: 250 },
+          { participantId: 'p2', shares: 750 },
+        ],
+      }),
+    ).toEqual([
+      { participantId: 'p1', amount: 250 },
+      { participantId: 'p2', amount: 750 },
+    ])
+  })
+
+  it('returns the amount paid by one participant', () => {
+    const payers = [
+      { participantId: 'p1', shares: 100 },
+      { participantId: 'p2', shares: 200 },
+    ]
+    expect(
+      calculatePaidAmount('p2', {
+        ...expense,
+        payersSplitMode: 'BY_SHARES',
+        payers,
+      }),
+    ).toBe(667)
+    expect(
+      calculatePaidAmount('p3', {
+        ...expense,
+        payersSplitMode: 'BY_SHARES',
+        payers,
+      }),
+    ).toBe(0)
+  })
+})
+
+describe('calculateItemSubtotals', () => {
+  const items = [
+    { amount: 1000, participants: ['p1', 'p2', 'p3'] },
+    { amount: 500, participants: ['p1'] },
+    { amount: 301, participants: ['p2', 'p3'] },
+  ].map(({ amount, participants }) => ({
+    amount,
+    participants: participants.map((participantId) => ({ participantId })),
+  }))
+
+  it('divides shared items between their participants', () => {
+    const subtotals = calculateItemSubtotals(items)
+    expect(subtotals.map(({ participantId }) => participantId)).toEqual([
+      'p1',
+      'p2',
+      'p3',
+    ])
+    expect(subtotals[0].shares).toBeCloseTo(2500 / 3)
+    expect(subtotals[1].shares).toBeCloseTo(2903 / 6)
+    expect(subtotals[2].shares).toBeCloseTo(2903 / 6)
+  })
+
+  it('spreads the whole amount in proportion to the subtotals', () => {
+    const expense = {
+      amount: 1200,
+      paidFor: [],
+      splitMode: 'BY_ITEMS' as const,
+      isReimbursement: false,
+      items,
+    }
+    expect(calculateShare('p1', expense)).toBeCloseTo(1000000 / 1801)
+    expect(calculateShare('p4', expense)).toBe(0)
+    expect(
+      sumAmounts(divideAmount(1200, 'BY_ITEMS', calculateItemSubtotals(items))),
+    ).toBe(1200)
+  })
+})
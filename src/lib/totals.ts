@@ -1,4 +1,5 @@
 import { getGroupExpenses } from '@/lib/api'
+import { Participant, SplitMode } from '@prisma/client'
 
 export function getTotalGroupSpending(
   expenses: NonNullable<Awaited<ReturnType<typeof getGroupExpenses>>>,
@@ -16,24 +17,115 @@ export function getTotalActiveUserPaidFor(
 ): number {
   return expenses.reduce(
     (total, expense) =>
-      expense.paidBy.id === activeUserId && !expense.isReimbursement
-        ? total + expense.amount
-        : total,
+      expense.isReimbursement
+        ? total
+        : total + calculatePaidAmount(activeUserId, expense),
     0,
   )
 }
 
 type Expense = NonNullable<Awaited<ReturnType<typeof getGroupExpenses>>>[number]
 
+/**
+ * Divides an amount between participants according to the split mode.
+ * Parts are rounded to minor units from the running total, so that they always
+ * sum up to the amount and the last participant gets what remains.
+ */
+export function divideAmount(
+  amount: number,
+  splitMode: SplitMode,
+  entries: { participantId: Participant['id']; shares: number }[],
+): { participantId: Participant['id']; amount: number }[] {
+  const weight = (shares: number) => (splitMode === 'EVENLY' ? 1 : shares)
+  const totalWeight = entries.reduce(
+    (sum, entry) => sum + weight(entry.shares),
+    0,
+  )
+  let cumulativeWeight = 0
+  let dividedAmount = 0
+  return entries.map((entry) => {
+    cumulativeWeight += weight(entry.shares)
+    const cumulativeAmount =
+      totalWeight === 0
+        ? 0
+        : Math.round((amount * cumulativeWeight) / totalWeight)
+    const part = cumulativeAmount - dividedAmount
+    dividedAmount = cumulativeAmount
+    // add +0 to avoid negative zeros
+    return { participantId: entry.participantId, amount: part + 0 }
+  })
+}
+
+type PaidExpense = {
+  amount: number
+  paidById: Participant['id']
+  payersSplitMode: SplitMode
+  payers: { participantId: Participant['id']; shares: number }[]
+}
+
+/**
+ * Divides the amount of an expense between the participants who paid it.
+ * Expenses without payers were fully paid by `paidById`.
+ */
+export function calculatePaidAmounts(
+  expense: PaidExpense,
+): { participantId: Participant['id']; amount: number }[] {
+  if (expense.payers.length === 0) {
+    return [{ participantId: expense.paidById, amount: expense.amount }]
+  }
+  return divideAmount(expense.amount, expense.payersSplitMode, expense.payers)
+}
+
+export function calculatePaidAmount(
+  participantId: string | null,
+  expense: PaidExpense,
+): number {
+  return (
+    calculatePaidAmounts(expense).find(
+      (paidAmount) => paidAmount.participantId === participantId,
+    )?.amount ?? 0
+  )
+}
+
+/**
+ * Sums up what each participant consumed in the items of an expense split BY_ITEMS.
+ * The amount of an item is divided evenly between the participants who consumed it.
+ */
+export function calculateItemSubtotals(
+  items: Pick<Expense['items'][number], 'amount' | 'participants'>[],
+): { participantId: Participant['id']; shares: number }[] {
+  const subtotals: Record<string, number> = {}
+  for (const item of items) {
+    for (const { participantId } of item.participants) {
+      subtotals[participantId] =
+        (subtotals[participantId] ?? 0) + item.amount / item.participants.length
+    }
+  }
+  return Object.entries(subtotals).map(([participantId, shares]) => ({
+    participantId,
+    shares,
+  }))
+}
+
 export function calculateShare(
   participantId: string | null,
   expense: Pick<
     Expense,
-    'amount' | 'paidFor' | 'splitMode' | 'isReimbursement'
+    'amount' | 'paidFor' | 'splitMode' | 'isReimbursement' | 'items'
   >,
 ): number {
   if (expense.isReimbursement) return 0
 
+  if (expense.splitMode === 'BY_ITEMS') {
+    // Spread the whole amount (including tax and tip) in proportion to what the user consumed
+    const subtotals = calculateItemSubtotals(expense.items)
+    const itemsTotal = subtotals.reduce((sum, { shares }) => sum + shares, 0)
+    const userSubtotal =
+      subtotals.find((subtotal) => subtotal.participantId === participantId)
+        ?.shares ?? 0
+    return itemsTotal === 0 ? 0 : (expense.amount * userSubtotal) / itemsTotal
+  }
+
   const paidFors = expense.paidFor
   const userPaidFor = paidFors.find(
     (paidFor) => paidFor.participant.id === participantId,
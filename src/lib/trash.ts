@@ -0,0 +1,92 @@
+import { logActivity } from '@/lib/api'
+import { env } from '@/lib/env'
+import { prisma } from '@/lib/prisma'
+import { ActivityType } from '@prisma/client'
+
+const dayInMs = 24 * 60 * 60 * 1000
+
+/** Date after which an expense deleted on `deletedAt` is purged. */
+export function getPurgeDate(
+  deletedAt: Date,
+  retentionDays = env.EXPENSE_TRASH_RETENTION_DAYS,
+) {
+  return new Date(deletedAt.getTime() + retentionDays * dayInMs)
+}
+
+/** Expenses of the group in the trash, most recently deleted first. */
+export async function getDeletedExpenses(groupId: string) {
+  const expenses = await prisma.expense.findMany({
+    where: { groupId, deletedAt: { not: null } },
+    select: {
+      id: true,
+      title: true,
+      amount: true,
+      expenseDate: true,
+      isReimbursement: true,
+      deletedAt: true,
+      category: true,
+      paidBy: { select: { id: true, name: true } },
+    },
+    orderBy: [{ deletedAt: 'desc' }],
+  })
+  return expenses.map(({ deletedAt, ...expense }) => ({
+    ...expense,
+    deletedAt: deletedAt!,
+    purgeDate: getPurgeDate(deletedAt!),
+  }))
+}
+
+export async function restoreExpense(
+  groupId: string,
+  expenseId: string,
+  participantId?: string,
+) {
+  const expense = await prisma.expense.findFirst({
+    where: { id: expenseId, groupId, deletedAt: { not: null } },
+  })
+  if (!expense) throw new Error(`Invalid expense ID: ${expenseId}`)
+
+  await logActivity(groupId, ActivityType.RESTORE_EXPENSE, {
+    participantId,
+    expenseId,
+    data: expense.title,
+  })
+  await prisma.expense.update({
+    where: { id: expenseId },
+    data: { deletedAt: null },
+  })
+}
+
+export type PurgeDeletedExpensesOptions = {
+  /** Expenses deleted before this date minus the retention period are purged. */
+  now?: Date
+  retentionDays?: number
+  /** Only lists the expenses to purge. */
+  dryRun: boolean
+}
+
+/**
+ * Permanently deletes the expenses that stayed in the trash longer than the
+ * retention period (`EXPENSE_TRASH_RETENTION_DAYS`). Their documents are then
+ * removed from the storage by the orphaned documents cleanup.
+ */
+export async function purgeDeletedExpenses({
+  now = new Date(),
+  retentionDays = env.EXPENSE_TRASH_RETENTION_DAYS,
+  dryRun,
+}: PurgeDeletedExpensesOptions) {
+  const where = {
+    deletedAt: { lte: new Date(now.getTime() - retentionDays * dayInMs) },
+  }
+  const expenses = await prisma.expense.findMany({
+    where,
+    select: { id: true, groupId: true, title: true, deletedAt: true },
+    orderBy: [{ deletedAt: 'asc' }],
+  })
+  if (!dryRun && expenses.length > 0) {
+    await prisma.expense.deleteMany({
+      where: { ...where, id: { in: expenses.map(({ id }) => id) } },
+    })
+  }
+  return { purged: expenses }
+}
@@ -0,0 +1,38 @@
+import { cleanupOrphanedDocuments } from '@/lib/document-cleanup'
+
+/**
+ * Usage: npm run cleanup-documents -- [--dry-run] [--grace-period-hours=24]
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const gracePeriodArg = args.find((arg) =>
+    arg.startsWith('--grace-period-hours='),
+  )
+  const gracePeriodHours = gracePeriodArg
+    ? Number(gracePeriodArg.split('=')[1])
+    : 24
+  if (!Number.isFinite(gracePeriodHours) || gracePeriodHours < 0) {
+    throw new Error(`Invalid grace period: ${gracePeriodArg}`)
+  }
+
+  const { orphans, deleted } = await cleanupOrphanedDocuments({
+    gracePeriodHours,
+    dryRun,
+  })
+
+  console.log(`Found ${orphans.length} orphaned document(s):`)
+  for (const { key, lastModified } of orphans) {
+    console.log(`- ${key} (${lastModified.toISOString()})`)
+  }
+  console.log(
+    dryRun
+      ? 'Dry run, nothing was deleted.'
+      : `Deleted ${deleted.length} document(s) older than ${gracePeriodHours} hours.`,
+  )
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -0,0 +1,42 @@
+import { createDueRecurringExpenses } from '@/lib/recurring-expenses'
+
+/**
+ * Usage: npm run create-recurring-expenses -- [--dry-run]
+ */
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run')
+
+  const { created, failed, skipped } = await createDueRecurringExpenses({
+    dryRun,
+  })
+
+  console.log(
+    dryRun
+      ? `Found ${created.length} recurring expense(s) to create:`
+      : `Created ${created.length} recurring expense(s):`,
+  )
+  for (const {
+    groupId,
+    previousExpenseId,
+    expenseId,
+    expenseDate,
+  } of created) {
+    console.log(
+      `- ${expenseDate.toISOString().substring(0, 10)} in group ${groupId}: ${
+        expenseId ?? '(dry run)'
+      }, repeating ${previousExpenseId}`,
+    )
+  }
+  if (skipped > 0) {
+    console.log(`Skipped ${skipped} expense(s) created by another run.`)
+  }
+  if (failed.length > 0) {
+    console.error(`Failed to create ${failed.length} recurring expense(s).`)
+    process.exitCode = 1
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
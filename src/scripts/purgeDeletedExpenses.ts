@@ -0,0 +1,37 @@
+import { purgeDeletedExpenses } from '@/lib/trash'
+
+/**
+ * Usage: npm run purge-deleted-expenses -- [--dry-run] [--retention-days=30]
+ */
+async function main() {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const retentionArg = args.find((arg) => arg.startsWith('--retention-days='))
+  const retentionDays = retentionArg
+    ? Number(retentionArg.split('=')[1])
+    : undefined
+  if (
+    retentionDays !== undefined &&
+    (!Number.isInteger(retentionDays) || retentionDays < 1)
+  ) {
+    throw new Error(`Invalid retention period: ${retentionArg}`)
+  }
+
+  const { purged } = await purgeDeletedExpenses({ dryRun, retentionDays })
+
+  console.log(
+    dryRun
+      ? `Found ${purged.length} deleted expense(s) to purge:`
+      : `Purged ${purged.length} deleted expense(s):`,
+  )
+  for (const { groupId, id, title, deletedAt } of purged) {
+    console.log(
+      `- ${id} in group ${groupId} (${title}), deleted on ${deletedAt?.toISOString()}`,
+    )
+  }
+}
+
+main().catch((err) => {
+  console.error(err)
+  process.exit(1)
+})
@@ -1,6 +1,8 @@
 import { createTRPCRouter } from '@/trpc/init'
 import { listGroupBalancesProcedure } from '@/trpc/routers/groups/balances/list.procedure'
+import { settleGroupBalanceProcedure } from '@/trpc/routers/groups/balances/settle.procedure'
 
 export const groupBalancesRouter = createTRPCRouter({
   list: listGroupBalancesProcedure,
+  settle: settleGroupBalanceProcedure,
 })
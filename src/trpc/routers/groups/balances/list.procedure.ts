@@ -1,4 +1,4 @@
-import { getGroupExpenses } from '@/lib/api'
+import { getGroup, getGroupExpenses } from '@/lib/api'
 import {
   getBalances,
   getPublicBalances,
@@ -10,9 +10,26 @@ import { z } from 'zod'
 export const listGroupBalancesProcedure = baseProcedure
   .input(z.object({ groupId: z.string().min(1) }))
   .query(async ({ input: { groupId } }) => {
-    const expenses = await getGroupExpenses(groupId)
+    const [group, expenses] = await Promise.all([
+      getGroup(groupId),
+      getGroupExpenses(groupId),
+    ])
     const balances = getBalances(expenses)
-    const reimbursements = getSuggestedReimbursements(balances)
+    const reimbursements = getSuggestedReimbursements(
+      balances,
+      group?.settlementAlgorithm,
+      group
+        ? {
+            mode: group.settlementRestriction,
+            // reimbursements are not routed through archived participants
+            participantIds: group.participants
+              .filter((p) => p.archivedAt === null)
+              .map((p) => p.id),
+            treasurerId: group.treasurerId,
+            pairs: group.settlementPairs,
+          }
+        : undefined,
+    )
     const publicBalances = getPublicBalances(reimbursements)
 
     return { balances: publicBalances, reimbursements }
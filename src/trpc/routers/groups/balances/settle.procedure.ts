@@ -0,0 +1,23 @@
+import { createReimbursement } from '@/lib/api'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const settleGroupBalanceProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      from: z.string().min(1),
+      to: z.string().min(1),
+      amount: z.number().int().positive(),
+      title: z.string().min(1),
+      participantId: z.string().optional(),
+    }),
+  )
+  .mutation(async ({ input: { groupId, participantId, ...reimbursement } }) => {
+    const expense = await createReimbursement(
+      groupId,
+      reimbursement,
+      participantId,
+    )
+    return { expenseId: expense.id }
+  })
@@ -24,11 +24,23 @@ export const createBatchGroupExpenseProcedure = baseProcedure
         if (!validParticipantIds.has(expense.paidBy)) {
           throw new Error(`Invalid participant ID: ${expense.paidBy}`)
         }
+        for (const payer of expense.payers) {
+          if (!validParticipantIds.has(payer.participant)) {
+            throw new Error(`Invalid participant ID: ${payer.participant}`)
+          }
+        }
         for (const pf of expense.paidFor) {
           if (!validParticipantIds.has(pf.participant)) {
             throw new Error(`Invalid participant ID: ${pf.participant}`)
           }
         }
+        for (const participant of expense.items.flatMap(
+          (item) => item.participants,
+        )) {
+          if (!validParticipantIds.has(participant)) {
+            throw new Error(`Invalid participant ID: ${participant}`)
+          }
+        }
       }
 
       // Create all expenses in a single transaction
@@ -44,8 +56,16 @@ export const createBatchGroupExpenseProcedure = baseProcedure
               amount: expenseFormValues.amount,
               title: expenseFormValues.title,
               paidById: expenseFormValues.paidBy,
+              payersSplitMode: expenseFormValues.payersSplitMode,
+              payers: {
+                createMany: {
+                  data: expenseFormValues.payers.map((payer) => ({
+                    participantId: payer.participant,
+                    shares: payer.shares,
+                  })),
+                },
+              },
               splitMode: expenseFormValues.splitMode,
-              recurrenceRule: expenseFormValues.recurrenceRule,
               paidFor: {
                 createMany: {
                   data: expenseFormValues.paidFor.map((paidFor) => ({
@@ -54,6 +74,21 @@ export const createBatchGroupExpenseProcedure = baseProcedure
                   })),
                 },
               },
+              items: {
+                create: expenseFormValues.items.map((item, position) => ({
+                  id: randomId(),
+                  position,
+                  label: item.label,
+                  amount: item.amount,
+                  participants: {
+                    createMany: {
+                      data: item.participants.map((participantId) => ({
+                        participantId,
+                      })),
+                    },
+                  },
+                })),
+              },
               isReimbursement: expenseFormValues.isReimbursement,
               notes: expenseFormValues.notes,
             },
@@ -62,9 +97,9 @@ export const createBatchGroupExpenseProcedure = baseProcedure
       )
 
       // Log a single activity for the batch import
-      await logActivity(groupId, ActivityType.CREATE_EXPENSE, {
+      await logActivity(groupId, ActivityType.IMPORT_EXPENSES, {
         participantId,
-        data: `Imported ${results.length} expenses from CSV`,
+        details: { count: results.length },
       })
 
       return { count: results.length }
@@ -0,0 +1,16 @@
+import { deleteExpenses } from '@/lib/api'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const deleteBatchGroupExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      expenseIds: z.array(z.string().min(1)).min(1).max(500),
+      participantId: z.string().optional(),
+    }),
+  )
+  .mutation(async ({ input: { groupId, expenseIds, participantId } }) => {
+    await deleteExpenses(groupId, expenseIds, participantId)
+    return {}
+  })
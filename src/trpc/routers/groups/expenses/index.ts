@@ -1,9 +1,12 @@
 import { createTRPCRouter } from '@/trpc/init'
 import { createBatchGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/create-batch.procedure'
 import { createGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/create.procedure'
+import { deleteBatchGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/delete-batch.procedure'
 import { deleteGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/delete.procedure'
 import { getGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/get.procedure'
 import { listGroupExpensesProcedure } from '@/trpc/routers/groups/expenses/list.procedure'
+import { revertGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/revert.procedure'
+import { updateBatchGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/update-batch.procedure'
 import { updateGroupExpenseProcedure } from '@/trpc/routers/groups/expenses/update.procedure'
 
 export const groupExpensesRouter = createTRPCRouter({
@@ -12,5 +15,8 @@ export const groupExpensesRouter = createTRPCRouter({
   create: createGroupExpenseProcedure,
   createBatch: createBatchGroupExpenseProcedure,
   update: updateGroupExpenseProcedure,
+  updateBatch: updateBatchGroupExpenseProcedure,
   delete: deleteGroupExpenseProcedure,
+  deleteBatch: deleteBatchGroupExpenseProcedure,
+  revert: revertGroupExpenseProcedure,
 })
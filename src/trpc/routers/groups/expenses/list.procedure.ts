@@ -1,4 +1,5 @@
 import { getGroupExpenses } from '@/lib/api'
+import { expenseFiltersSchema } from '@/lib/schemas'
 import { baseProcedure } from '@/trpc/init'
 import { z } from 'zod'
 
@@ -9,21 +10,25 @@ export const listGroupExpensesProcedure = baseProcedure
       cursor: z.number().optional(),
       limit: z.number().optional(),
       filter: z.string().optional(),
+      filters: expenseFiltersSchema.optional(),
     }),
   )
-  .query(async ({ input: { groupId, cursor = 0, limit = 10, filter } }) => {
-    const expenses = await getGroupExpenses(groupId, {
-      offset: cursor,
-      length: limit + 1,
-      filter,
-    })
-    return {
-      expenses: expenses.slice(0, limit).map((expense) => ({
-        ...expense,
-        createdAt: new Date(expense.createdAt),
-        expenseDate: new Date(expense.expenseDate),
-      })),
-      hasMore: !!expenses[limit],
-      nextCursor: cursor + limit,
-    }
-  })
+  .query(
+    async ({ input: { groupId, cursor = 0, limit = 10, filter, filters } }) => {
+      const expenses = await getGroupExpenses(groupId, {
+        offset: cursor,
+        length: limit + 1,
+        filter,
+        filters,
+      })
+      return {
+        expenses: expenses.slice(0, limit).map((expense) => ({
+          ...expense,
+          createdAt: new Date(expense.createdAt),
+          expenseDate: new Date(expense.expenseDate),
+        })),
+        hasMore: !!expenses[limit],
+        nextCursor: cursor + limit,
+      }
+    },
+  )
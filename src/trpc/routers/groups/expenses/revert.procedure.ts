@@ -0,0 +1,16 @@
+import { revertExpense } from '@/lib/api'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const revertGroupExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      activityId: z.string().min(1),
+      participantId: z.string().optional(),
+    }),
+  )
+  .mutation(async ({ input: { groupId, activityId, participantId } }) => {
+    const expense = await revertExpense(groupId, activityId, participantId)
+    return { expenseId: expense.id }
+  })
@@ -0,0 +1,20 @@
+import { updateExpenses } from '@/lib/api'
+import { bulkExpenseChangesSchema } from '@/lib/schemas'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const updateBatchGroupExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      expenseIds: z.array(z.string().min(1)).min(1).max(500),
+      changes: bulkExpenseChangesSchema,
+      participantId: z.string().optional(),
+    }),
+  )
+  .mutation(
+    async ({ input: { groupId, expenseIds, changes, participantId } }) => {
+      await updateExpenses(groupId, expenseIds, changes, participantId)
+      return {}
+    },
+  )
@@ -4,7 +4,10 @@ import { groupBalancesRouter } from '@/trpc/routers/groups/balances'
 import { createGroupProcedure } from '@/trpc/routers/groups/create.procedure'
 import { groupExpensesRouter } from '@/trpc/routers/groups/expenses'
 import { getGroupProcedure } from '@/trpc/routers/groups/get.procedure'
+import { groupParticipantsRouter } from '@/trpc/routers/groups/participants'
+import { recurringExpensesRouter } from '@/trpc/routers/groups/recurring-expenses'
 import { groupStatsRouter } from '@/trpc/routers/groups/stats'
+import { trashRouter } from '@/trpc/routers/groups/trash'
 import { updateGroupProcedure } from '@/trpc/routers/groups/update.procedure'
 import { getGroupDetailsProcedure } from './getDetails.procedure'
 import { listGroupsProcedure } from './list.procedure'
@@ -14,6 +17,9 @@ export const groupsRouter = createTRPCRouter({
   balances: groupBalancesRouter,
   stats: groupStatsRouter,
   activities: activitiesRouter,
+  recurringExpenses: recurringExpensesRouter,
+  trash: trashRouter,
+  participants: groupParticipantsRouter,
 
   get: getGroupProcedure,
   getDetails: getGroupDetailsProcedure,
@@ -0,0 +1,6 @@
+import { createTRPCRouter } from '@/trpc/init'
+import { mergeGroupParticipantsProcedure } from '@/trpc/routers/groups/participants/merge.procedure'
+
+export const groupParticipantsRouter = createTRPCRouter({
+  merge: mergeGroupParticipantsProcedure,
+})
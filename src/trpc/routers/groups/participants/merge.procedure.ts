@@ -0,0 +1,16 @@
+import { mergeParticipants } from '@/lib/api'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const mergeGroupParticipantsProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      fromId: z.string().min(1),
+      toId: z.string().min(1),
+      participantId: z.string().optional(),
+    }),
+  )
+  .mutation(async ({ input: { groupId, fromId, toId, participantId } }) => {
+    await mergeParticipants(groupId, fromId, toId, participantId)
+  })
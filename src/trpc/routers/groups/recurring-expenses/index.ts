@@ -0,0 +1,16 @@
+import { createTRPCRouter } from '@/trpc/init'
+import { endRecurringExpenseProcedure } from '@/trpc/routers/groups/recurring-expenses/end.procedure'
+import { listRecurringExpensesProcedure } from '@/trpc/routers/groups/recurring-expenses/list.procedure'
+import { pauseRecurringExpenseProcedure } from '@/trpc/routers/groups/recurring-expenses/pause.procedure'
+import { resumeRecurringExpenseProcedure } from '@/trpc/routers/groups/recurring-expenses/resume.procedure'
+import { skipRecurringExpenseProcedure } from '@/trpc/routers/groups/recurring-expenses/skip.procedure'
+import { updateRecurringExpenseProcedure } from '@/trpc/routers/groups/recurring-expenses/update.procedure'
+
+export const recurringExpensesRouter = createTRPCRouter({
+  list: listRecurringExpensesProcedure,
+  pause: pauseRecurringExpenseProcedure,
+  resume: resumeRecurringExpenseProcedure,
+  skip: skipRecurringExpenseProcedure,
+  update: updateRecurringExpenseProcedure,
+  end: endRecurringExpenseProcedure,
+})
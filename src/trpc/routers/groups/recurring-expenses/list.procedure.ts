@@ -0,0 +1,10 @@
+import { getRecurringExpenseSeries } from '@/lib/recurring-expenses'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const listRecurringExpensesProcedure = baseProcedure
+  .input(z.object({ groupId: z.string().min(1) }))
+  .query(async ({ input: { groupId } }) => {
+    const series = await getRecurringExpenseSeries(groupId)
+    return { series }
+  })
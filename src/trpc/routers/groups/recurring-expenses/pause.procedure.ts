@@ -0,0 +1,15 @@
+import { pauseRecurringExpenseSeries } from '@/lib/recurring-expenses'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const pauseRecurringExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      recurringExpenseLinkId: z.string().min(1),
+    }),
+  )
+  .mutation(async ({ input: { groupId, recurringExpenseLinkId } }) => {
+    await pauseRecurringExpenseSeries(groupId, recurringExpenseLinkId)
+    return {}
+  })
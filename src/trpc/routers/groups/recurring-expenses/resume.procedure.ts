@@ -0,0 +1,15 @@
+import { resumeRecurringExpenseSeries } from '@/lib/recurring-expenses'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const resumeRecurringExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      recurringExpenseLinkId: z.string().min(1),
+    }),
+  )
+  .mutation(async ({ input: { groupId, recurringExpenseLinkId } }) => {
+    await resumeRecurringExpenseSeries(groupId, recurringExpenseLinkId)
+    return {}
+  })
@@ -0,0 +1,15 @@
+import { skipNextRecurringExpense } from '@/lib/recurring-expenses'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const skipRecurringExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      recurringExpenseLinkId: z.string().min(1),
+    }),
+  )
+  .mutation(async ({ input: { groupId, recurringExpenseLinkId } }) => {
+    await skipNextRecurringExpense(groupId, recurringExpenseLinkId)
+    return {}
+  })
@@ -0,0 +1,25 @@
+import { updateRecurringExpenseSeries } from '@/lib/recurring-expenses'
+import { recurringExpenseSeriesFormSchema } from '@/lib/schemas'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const updateRecurringExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      recurringExpenseLinkId: z.string().min(1),
+      seriesFormValues: recurringExpenseSeriesFormSchema,
+    }),
+  )
+  .mutation(
+    async ({
+      input: { groupId, recurringExpenseLinkId, seriesFormValues },
+    }) => {
+      await updateRecurringExpenseSeries(
+        groupId,
+        recurringExpenseLinkId,
+        seriesFormValues,
+      )
+      return {}
+    },
+  )
@@ -0,0 +1,8 @@
+import { createTRPCRouter } from '@/trpc/init'
+import { listDeletedExpensesProcedure } from '@/trpc/routers/groups/trash/list.procedure'
+import { restoreDeletedExpenseProcedure } from '@/trpc/routers/groups/trash/restore.procedure'
+
+export const trashRouter = createTRPCRouter({
+  list: listDeletedExpensesProcedure,
+  restore: restoreDeletedExpenseProcedure,
+})
@@ -0,0 +1,10 @@
+import { getDeletedExpenses } from '@/lib/trash'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const listDeletedExpensesProcedure = baseProcedure
+  .input(z.object({ groupId: z.string().min(1) }))
+  .query(async ({ input: { groupId } }) => {
+    const expenses = await getDeletedExpenses(groupId)
+    return { expenses }
+  })
@@ -0,0 +1,16 @@
+import { restoreExpense } from '@/lib/trash'
+import { baseProcedure } from '@/trpc/init'
+import { z } from 'zod'
+
+export const restoreDeletedExpenseProcedure = baseProcedure
+  .input(
+    z.object({
+      groupId: z.string().min(1),
+      expenseId: z.string().min(1),
+      participantId: z.string().optional(),
+    }),
+  )
+  .mutation(async ({ input: { groupId, expenseId, participantId } }) => {
+    await restoreExpense(groupId, expenseId, participantId)
+    return {}
+  })